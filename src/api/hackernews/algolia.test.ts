@@ -0,0 +1,72 @@
+/**
+ * Algolia 时间窗口切分测试
+ */
+
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchTopStoriesByScore } from './algolia';
+import { configureLimiter } from '../../utils/scheduler';
+
+const START = 1704067200;
+const END = START + 86399;
+// Algolia 单次查询最多返回的结果数
+const MAX_HITS = 1000;
+
+/**
+ * 模拟 search_by_date：按 numericFilters 过滤，超过 1000 条的部分无法翻页取到
+ */
+function mockAlgolia(times: number[]) {
+  const windows: Array<{ start: number; end: number; nbHits: number }> = [];
+  const fetchMock = mock.method(globalThis, 'fetch', async (input: string | URL) => {
+    const url = new URL(String(input));
+    const [, start, end] = url.searchParams.get('numericFilters')!.match(/created_at_i>=(\d+),created_at_i<=(\d+)/)!.map(Number);
+    const hitsPerPage = Number(url.searchParams.get('hitsPerPage'));
+    const page = Number(url.searchParams.get('page'));
+
+    const matched = times
+      .map((time, i) => ({ objectID: String(i + 1), title: `Story ${i + 1}`, points: i, created_at_i: time, author: 'pg' }))
+      .filter(hit => hit.created_at_i >= start && hit.created_at_i <= end);
+    windows.push({ start, end, nbHits: matched.length });
+
+    const reachable = matched.slice(0, MAX_HITS);
+    return new Response(JSON.stringify({
+      hits: reachable.slice(page * hitsPerPage, (page + 1) * hitsPerPage),
+      nbHits: matched.length,
+      nbPages: Math.ceil(reachable.length / hitsPerPage),
+    }), { status: 200 });
+  });
+  return { windows, restore: () => fetchMock.mock.restore() };
+}
+
+test('结果超过分页上限时切分时间窗口，取到全部文章', async () => {
+  configureLimiter('algolia', { requestsPerMinute: 0 });
+  const times = Array.from({ length: 2500 }, (_, i) => START + Math.floor(i * 86400 / 2500));
+  const { windows, restore } = mockAlgolia(times);
+  try {
+    const stories = await fetchTopStoriesByScore(5000, START, END);
+
+    assert.equal(stories.length, 2500);
+    assert.equal(new Set(stories.map(story => story.id)).size, 2500);
+    // 按分数排序
+    assert.deepEqual(stories.slice(0, 2).map(story => story.score), [2499, 2498]);
+    // 实际取结果的窗口都在上限以内，且首尾相接覆盖整天
+    const leaves = windows.filter(w => w.nbHits <= MAX_HITS).sort((a, b) => a.start - b.start);
+    assert.equal(leaves[0].start, START);
+    assert.equal(leaves[leaves.length - 1].end, END);
+    leaves.slice(1).forEach((w, i) => assert.equal(w.start, leaves[i].end + 1));
+  } finally {
+    restore();
+  }
+});
+
+test('结果在上限以内时只查询一次，取分数最高的前 N 篇', async () => {
+  configureLimiter('algolia', { requestsPerMinute: 0 });
+  const { windows, restore } = mockAlgolia([START + 10, START + 20, END + 10, START + 30]);
+  try {
+    const stories = await fetchTopStoriesByScore(2, START, END);
+    assert.deepEqual(stories.map(story => story.id), [4, 2]);
+    assert.equal(windows.length, 1);
+  } finally {
+    restore();
+  }
+});
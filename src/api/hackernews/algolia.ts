@@ -3,10 +3,13 @@
  */
 
 import { get } from '../../utils/fetch';
-import type { Story } from '../../types';
+import { getLimiter } from '../../utils/scheduler';
+import { htmlToText } from '../../utils/html';
+import type { CommentNode, Story } from '../../types';
 
 const ALGOLIA_BASE_URL = 'https://hn.algolia.com/api/v1';
 const TIMEOUT = 10000;
+const limiter = () => getLimiter('algolia');
 
 interface AlgoliaHit {
   objectID: string;
@@ -16,6 +19,16 @@ interface AlgoliaHit {
   created_at_i: number;
   author: string;
   num_comments?: number;
+  story_text?: string | null;
+}
+
+interface AlgoliaItem {
+  id: number;
+  type: string;
+  author: string | null;
+  text: string | null;
+  created_at_i: number;
+  children: AlgoliaItem[];
 }
 
 interface AlgoliaSearchResponse {
@@ -24,6 +37,54 @@ interface AlgoliaSearchResponse {
   nbHits: number;
 }
 
+// Algolia 单次查询最多可翻到 1000 条结果
+const MAX_HITS_PER_QUERY = 1000;
+const HITS_PER_PAGE = 1000;
+// 时间窗口最小切分粒度（秒）
+const MIN_WINDOW = 60;
+
+async function searchStoriesPage(
+  startTime: number,
+  endTime: number,
+  page: number
+): Promise<AlgoliaSearchResponse> {
+  const params = new URLSearchParams({
+    tags: 'story',
+    numericFilters: `created_at_i>=${startTime},created_at_i<=${endTime}`,
+    hitsPerPage: String(HITS_PER_PAGE),
+    page: String(page),
+  });
+
+  const url = `${ALGOLIA_BASE_URL}/search_by_date?${params}`;
+  const response = await limiter().schedule(() => get<AlgoliaSearchResponse>(url, { timeout: TIMEOUT }));
+  return response.data;
+}
+
+/**
+ * 获取时间窗口内的全部文章
+ *
+ * 结果数超过 Algolia 分页上限时把窗口一分为二递归获取，避免静默截断
+ */
+async function fetchAllStoriesInWindow(startTime: number, endTime: number): Promise<AlgoliaHit[]> {
+  const first = await searchStoriesPage(startTime, endTime, 0);
+
+  if (first.nbHits > MAX_HITS_PER_QUERY && endTime - startTime > MIN_WINDOW) {
+    const mid = Math.floor((startTime + endTime) / 2);
+    const [left, right] = await Promise.all([
+      fetchAllStoriesInWindow(startTime, mid),
+      fetchAllStoriesInWindow(mid + 1, endTime),
+    ]);
+    return [...left, ...right];
+  }
+
+  const hits = [...first.hits];
+  for (let page = 1; page < first.nbPages; page++) {
+    const next = await searchStoriesPage(startTime, endTime, page);
+    hits.push(...next.hits);
+  }
+  return hits;
+}
+
 /**
  * 获取指定日期范围内按分数排序的热门文章
  */
@@ -32,18 +93,7 @@ export async function fetchTopStoriesByScore(
   startTime: number,
   endTime: number
 ): Promise<Story[]> {
-  const filters = `created_at_i>${startTime},created_at_i<${endTime}`;
-  
-  const params = new URLSearchParams({
-    tags: 'story',
-    numericFilters: filters,
-    hitsPerPage: '1000',
-  });
-
-  const url = `${ALGOLIA_BASE_URL}/search_by_date?${params}`;
-  const response = await get<AlgoliaSearchResponse>(url, { timeout: TIMEOUT });
-  
-  const hits = response.data.hits;
+  const hits = await fetchAllStoriesInWindow(startTime, endTime);
   
   // 按分数排序
   hits.sort((a, b) => b.points - a.points);
@@ -57,6 +107,7 @@ export async function fetchTopStoriesByScore(
     time: hit.created_at_i,
     by: hit.author,
     descendants: hit.num_comments,
+    text: hit.story_text ? htmlToText(hit.story_text) : undefined,
   }));
 }
 
@@ -75,11 +126,13 @@ export async function fetchCommentsFromAlgolia(
   const url = `${ALGOLIA_BASE_URL}/search?${params}`;
   
   try {
-    const response = await get<{ hits: Array<{ comment_text?: string }> }>(url, { timeout: TIMEOUT });
+    const response = await limiter().schedule(() =>
+      get<{ hits: Array<{ comment_text?: string }> }>(url, { timeout: TIMEOUT })
+    );
     
     const comments = response.data.hits
       .filter(h => h.comment_text)
-      .map(h => h.comment_text!)
+      .map(h => htmlToText(h.comment_text!))
       .join('\n\n---\n\n');
     
     return comments || '';
@@ -88,15 +141,36 @@ export async function fetchCommentsFromAlgolia(
   }
 }
 
+function toCommentNode(item: AlgoliaItem, depth: number): CommentNode | null {
+  const children = (item.children || [])
+    .map(child => toCommentNode(child, depth + 1))
+    .filter((node): node is CommentNode => node !== null);
+
+  // 已删除的评论没有正文，但其回复仍然保留
+  if (!item.text && children.length === 0) {
+    return null;
+  }
+
+  return {
+    id: item.id,
+    author: item.author || '[deleted]',
+    text: item.text ? htmlToText(item.text) : '',
+    time: item.created_at_i,
+    depth,
+    replyCount: children.reduce((sum, child) => sum + 1 + child.replyCount, 0),
+    children,
+  };
+}
+
 /**
- * 批量获取多篇文章的评论
+ * 通过 items 接口获取完整评论树
  */
-export async function fetchCommentsBatchFromAlgolia(
-  stories: Story[],
-  limit: number = 3
-): Promise<string[]> {
-  const results = await Promise.all(
-    stories.map(s => fetchCommentsFromAlgolia(s.id, limit))
-  );
-  return results;
+export async function fetchCommentTree(storyId: number): Promise<CommentNode[]> {
+  const url = `${ALGOLIA_BASE_URL}/items/${storyId}`;
+  const response = await limiter().schedule(() => get<AlgoliaItem>(url, { timeout: TIMEOUT * 3 }));
+
+  return (response.data.children || [])
+    .filter(child => child.type === 'comment')
+    .map(child => toCommentNode(child, 0))
+    .filter((node): node is CommentNode => node !== null);
 }
\ No newline at end of file
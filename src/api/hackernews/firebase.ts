@@ -0,0 +1,107 @@
+/**
+ * HackerNews 官方 Firebase API
+ *
+ * https://github.com/HackerNews/API
+ */
+
+import { get } from '../../utils/fetch';
+import { getLimiter } from '../../utils/scheduler';
+import { htmlToText } from '../../utils/html';
+import type { Story } from '../../types';
+
+const FIREBASE_BASE_URL = 'https://hacker-news.firebaseio.com/v0';
+const TIMEOUT = 10000;
+// 每批获取的条目数；时间范围内的文章足够时不再获取后续批次
+const ITEM_BATCH_SIZE = 50;
+const limiter = () => getLimiter('firebase');
+
+export type FirebaseStoryList = 'topstories' | 'beststories' | 'newstories';
+
+interface FirebaseItem {
+  id: number;
+  type?: string;
+  title?: string;
+  url?: string;
+  text?: string;
+  score?: number;
+  time?: number;
+  by?: string;
+  descendants?: number;
+  kids?: number[];
+  dead?: boolean;
+  deleted?: boolean;
+}
+
+/**
+ * 获取文章 ID 列表
+ */
+export async function fetchStoryIds(list: FirebaseStoryList): Promise<number[]> {
+  const response = await limiter().schedule(() =>
+    get<number[]>(`${FIREBASE_BASE_URL}/${list}.json`, { timeout: TIMEOUT })
+  );
+  return response.data || [];
+}
+
+/**
+ * 获取单个条目，不存在时返回 null
+ */
+export async function fetchItem(id: number): Promise<FirebaseItem | null> {
+  const response = await limiter().schedule(() =>
+    get<FirebaseItem | null>(`${FIREBASE_BASE_URL}/item/${id}.json`, { timeout: TIMEOUT })
+  );
+  return response.data;
+}
+
+async function fetchItems(ids: number[]): Promise<FirebaseItem[]> {
+  // 并发数由 firebase 限流器控制
+  const results = await Promise.all(ids.map(id => fetchItem(id).catch(() => null)));
+  return results.filter((item): item is FirebaseItem => item !== null);
+}
+
+function isStoryInRange(item: FirebaseItem, startTime: number, endTime: number): boolean {
+  return item.type === 'story' &&
+    !item.dead &&
+    !item.deleted &&
+    !!item.title &&
+    item.time !== undefined &&
+    item.time >= startTime &&
+    item.time <= endTime;
+}
+
+/**
+ * 从 topstories + beststories 中获取指定时间范围内按分数排序的热门文章
+ *
+ * 按列表顺序分批获取条目，凑够 limit 篇后停止。
+ * 这两个列表只覆盖最近的热门文章，回填较早日期时结果会不完整
+ */
+export async function fetchTopStoriesFromFirebase(
+  limit: number,
+  startTime: number,
+  endTime: number
+): Promise<Story[]> {
+  const [top, best] = await Promise.all([
+    fetchStoryIds('topstories'),
+    fetchStoryIds('beststories'),
+  ]);
+  const ids = [...new Set([...top, ...best])];
+
+  const items: FirebaseItem[] = [];
+  for (let i = 0; i < ids.length && items.length < limit; i += ITEM_BATCH_SIZE) {
+    const batch = await fetchItems(ids.slice(i, i + ITEM_BATCH_SIZE));
+    items.push(...batch.filter(item => isStoryInRange(item, startTime, endTime)));
+  }
+
+  return items
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .slice(0, limit)
+    .map(item => ({
+      id: item.id,
+      title: item.title!,
+      url: item.url,
+      score: item.score || 0,
+      time: item.time!,
+      by: item.by || '',
+      descendants: item.descendants,
+      text: item.text ? htmlToText(item.text) : undefined,
+    }));
+}
@@ -5,5 +5,21 @@
 export {
   fetchTopStoriesByScore,
   fetchCommentsFromAlgolia,
-  fetchCommentsBatchFromAlgolia,
+  fetchCommentTree,
 } from './algolia';
+
+export {
+  fetchStoryIds,
+  fetchItem,
+  fetchTopStoriesFromFirebase,
+} from './firebase';
+export type { FirebaseStoryList } from './firebase';
+
+export {
+  fetchTopStories,
+  getStorySource,
+  algoliaSource,
+  firebaseSource,
+  STORY_SOURCE_NAMES,
+} from './sources';
+export type { StorySource } from './sources';
@@ -0,0 +1,62 @@
+/**
+ * 文章来源 - 统一接口与自动降级
+ */
+
+import { fetchTopStoriesByScore } from './algolia';
+import { fetchTopStoriesFromFirebase } from './firebase';
+import type { Story } from '../../types';
+
+export interface StorySource {
+  name: string;
+  fetchTopStories(limit: number, startTime: number, endTime: number): Promise<Story[]>;
+}
+
+export const algoliaSource: StorySource = {
+  name: 'algolia',
+  fetchTopStories: fetchTopStoriesByScore,
+};
+
+export const firebaseSource: StorySource = {
+  name: 'firebase',
+  fetchTopStories: fetchTopStoriesFromFirebase,
+};
+
+const SOURCES: Record<string, StorySource> = {
+  algolia: algoliaSource,
+  firebase: firebaseSource,
+};
+
+export const STORY_SOURCE_NAMES = Object.keys(SOURCES);
+
+export function getStorySource(name: string): StorySource {
+  const source = SOURCES[name];
+  if (!source) {
+    throw new Error(`Unknown story source "${name}" (available: ${STORY_SOURCE_NAMES.join(', ')})`);
+  }
+  return source;
+}
+
+/**
+ * 按顺序尝试各来源，前一个来源出错时自动降级到下一个
+ */
+export async function fetchTopStories(
+  limit: number,
+  startTime: number,
+  endTime: number,
+  sourceNames: string[] = ['algolia', 'firebase']
+): Promise<{ source: string; stories: Story[] }> {
+  const sources = sourceNames.map(getStorySource);
+  let lastError: unknown;
+
+  for (const source of sources) {
+    try {
+      const stories = await source.fetchTopStories(limit, startTime, endTime);
+      return { source: source.name, stories };
+    } catch (error) {
+      lastError = error;
+      console.warn(`  ⚠️  ${source.name} 获取失败: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  throw lastError ?? new Error('No story source configured');
+}
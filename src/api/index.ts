@@ -3,7 +3,7 @@
  * 
  * This module provides access to all data source APIs.
  * Currently supports:
- * - HackerNews (via Algolia and Firebase)
+ * - HackerNews (via Algolia and Firebase, with automatic fallback)
  */
 
 // Re-export all HackerNews API functions
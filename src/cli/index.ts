@@ -0,0 +1,235 @@
+/**
+ * 命令行参数解析
+ */
+
+import { parseArgs } from 'util';
+import { STAGE_ORDER } from '../pipeline/types';
+import { getPreviousDate, isValidDateString, isValidTimezone } from '../utils/date';
+import { getPublisherNames } from '../services/publishers';
+import { DIGEST_PERIODS, DIGEST_TOP_STORIES, isDigestPeriod } from '../services/digest';
+import type { DigestPeriod } from '../services/digest';
+import type { StageName } from '../pipeline/types';
+
+export const KNOWN_PUBLISHERS = getPublisherNames();
+
+// 日报与回填共用的参数
+export interface CommonCliOptions {
+  limit?: number;
+  timezone?: string;
+  dryRun: boolean;
+  output?: string;
+  publishers?: string[];
+  noCache: boolean;
+  purgeCache: boolean;
+  help: boolean;
+}
+
+export interface CliOptions extends CommonCliOptions {
+  // 目标日期 YYYY-MM-DD，默认前一天
+  date?: string;
+  stage?: StageName;
+}
+
+export interface BackfillCliOptions extends CommonCliOptions {
+  from: string;
+  to: string;
+  // 两个日期之间的间隔（秒）
+  throttle: number;
+  // 已发布的日期也重新生成
+  force: boolean;
+}
+
+export interface DigestCliOptions extends CommonCliOptions {
+  period: DigestPeriod;
+  // 周期的最后一天 YYYY-MM-DD，默认前一天
+  date?: string;
+}
+
+const COMMON_HELP = `  --limit <n>              文章数量（默认 HN_STORY_LIMIT 或 30）
+  --timezone <tz>          日期边界所用时区（默认 TIMEZONE 或 UTC），如 Asia/Shanghai
+  --dry-run                只生成内容，不发布
+  --output <dir>           把生成的文章写入本地目录
+  --publishers <list>      逗号分隔的发布目标: ${KNOWN_PUBLISHERS.join(', ')}
+  --no-cache               跳过缓存
+  --purge-cache            清空缓存后运行
+  -h, --help               显示帮助`;
+
+export const HELP_TEXT = `用法: npm run dev -- [options]
+
+选项:
+  --date <YYYY-MM-DD>      目标日期（默认前一天）
+  --stage <name>           只运行单个阶段（之后的阶段会被重置）: ${STAGE_ORDER.join(', ')}
+${COMMON_HELP}
+`;
+
+export const BACKFILL_HELP_TEXT = `用法: npm run backfill -- --from <YYYY-MM-DD> [--to <YYYY-MM-DD>] [options]
+
+选项:
+  --from <YYYY-MM-DD>      起始日期
+  --to <YYYY-MM-DD>        结束日期（默认前一天）
+  --throttle <seconds>     两个日期之间的等待时间（默认 30）
+  --force                  已发布的日期也重新生成
+${COMMON_HELP}
+`;
+
+export const DIGEST_HELP_TEXT = `用法: npm run digest -- [options]
+
+选项:
+  --period <name>          周期: ${Object.keys(DIGEST_PERIODS).join(', ')}（默认 weekly）
+  --date <YYYY-MM-DD>      周期的最后一天（默认前一天）
+${COMMON_HELP.replace(/--limit <n>.*/, `--limit <n>              热门文章数量（默认 ${DIGEST_TOP_STORIES}）`)}
+`;
+
+const COMMON_OPTIONS = {
+  limit: { type: 'string' },
+  timezone: { type: 'string' },
+  'dry-run': { type: 'boolean', default: false },
+  output: { type: 'string' },
+  publishers: { type: 'string' },
+  'no-cache': { type: 'boolean', default: false },
+  'purge-cache': { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function parse<O extends Record<string, { type: 'string' | 'boolean' }>>(argv: string[], options: O) {
+  try {
+    return parseArgs({ args: argv, options, strict: true }).values;
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parsePositiveInt(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new CliError(`无效的 --${name} "${value}"`);
+  }
+  return n;
+}
+
+function parseDate(name: string, value: string | undefined): string | undefined {
+  if (value !== undefined && !isValidDateString(value)) {
+    throw new CliError(`无效的 --${name} "${value}"，格式应为 YYYY-MM-DD`);
+  }
+  return value;
+}
+
+function parseCommon(values: Record<string, string | boolean | undefined>): CommonCliOptions {
+  const timezone = values.timezone as string | undefined;
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    throw new CliError(`无效的时区 "${timezone}"`);
+  }
+
+  let publishers: string[] | undefined;
+  if (values.publishers !== undefined) {
+    publishers = String(values.publishers).split(',').map(p => p.trim()).filter(Boolean);
+    const unknown = publishers.filter(p => !KNOWN_PUBLISHERS.includes(p));
+    if (unknown.length > 0) {
+      throw new CliError(`未知发布目标: ${unknown.join(', ')}`);
+    }
+  }
+
+  return {
+    limit: parsePositiveInt('limit', values.limit as string | undefined),
+    timezone,
+    dryRun: values['dry-run'] === true,
+    output: values.output as string | undefined,
+    publishers,
+    noCache: values['no-cache'] === true,
+    purgeCache: values['purge-cache'] === true,
+    help: values.help === true,
+  };
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const values = parse(argv, {
+    ...COMMON_OPTIONS,
+    date: { type: 'string' },
+    stage: { type: 'string' },
+  });
+
+  if (values.stage !== undefined && !(STAGE_ORDER as string[]).includes(values.stage)) {
+    throw new CliError(`未知阶段 "${values.stage}"，可选: ${STAGE_ORDER.join(', ')}`);
+  }
+
+  const common = parseCommon(values);
+  // dry-run 在 render 之后停止，不会执行 publish
+  if (common.dryRun && values.stage === 'publish') {
+    throw new CliError('--dry-run 不能与 --stage publish 同时使用');
+  }
+
+  return {
+    ...common,
+    date: parseDate('date', values.date),
+    stage: values.stage as StageName | undefined,
+  };
+}
+
+export function parseBackfillArgs(argv: string[], defaultTimeZone: string): BackfillCliOptions {
+  const values = parse(argv, {
+    ...COMMON_OPTIONS,
+    from: { type: 'string' },
+    to: { type: 'string' },
+    throttle: { type: 'string' },
+    force: { type: 'boolean', default: false },
+  });
+
+  const common = parseCommon(values);
+  // --to 默认为 --timezone（未指定时为 defaultTimeZone）下的昨天
+  const defaultTo = getPreviousDate(common.timezone ?? defaultTimeZone);
+  if (common.help) {
+    return { ...common, from: defaultTo, to: defaultTo, throttle: 0, force: false };
+  }
+
+  const from = parseDate('from', values.from);
+  if (!from) {
+    throw new CliError('缺少 --from');
+  }
+  const to = parseDate('to', values.to) ?? defaultTo;
+  if (from > to) {
+    throw new CliError(`--from ${from} 晚于 --to ${to}`);
+  }
+
+  let throttle = 30;
+  if (values.throttle !== undefined) {
+    throttle = Number(values.throttle);
+    if (!Number.isFinite(throttle) || throttle < 0) {
+      throw new CliError(`无效的 --throttle "${values.throttle}"`);
+    }
+  }
+
+  return {
+    ...common,
+    from,
+    to,
+    throttle,
+    force: values.force === true,
+  };
+}
+
+export function parseDigestArgs(argv: string[]): DigestCliOptions {
+  const values = parse(argv, {
+    ...COMMON_OPTIONS,
+    period: { type: 'string' },
+    date: { type: 'string' },
+  });
+
+  const period = values.period ?? 'weekly';
+  if (!isDigestPeriod(period)) {
+    throw new CliError(`未知周期 "${period}"，可选: ${Object.keys(DIGEST_PERIODS).join(', ')}`);
+  }
+
+  return {
+    ...parseCommon(values),
+    period,
+    date: parseDate('date', values.date),
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * 运行配置 - 环境变量与命令行参数合并
+ */
+
+import { join } from 'path';
+import { cache } from '../services/cache';
+import { prompts } from '../services/prompts';
+import { getRegisteredLLMProviders, loadLLMConfigFromEnv } from '../services/llm';
+import { getPublisherNames, GITHUB_LAYOUTS } from '../services/publishers';
+import { DEFAULT_SELECTION_POLICY, type SelectionPolicy } from '../services/selection';
+import { parsePrices, type UsageConfig } from '../services/usage';
+import { configureLimiter, type RateLimitOptions } from '../utils/scheduler';
+import type { CommonCliOptions } from '../cli';
+import type { PipelineConfig } from '../pipeline/types';
+
+const ROOT_DIR = join(__dirname, '../..');
+
+export const STORY_LIMIT = parseInt(process.env.HN_STORY_LIMIT || '30', 10);
+export const SUMMARY_MAX_LENGTH = parseInt(process.env.SUMMARY_MAX_LENGTH || '300', 10);
+export const SUMMARY_CHUNK_TOKENS = parseInt(process.env.SUMMARY_CHUNK_TOKENS || '3000', 10);
+export const SUMMARY_MAX_ARTICLE_TOKENS = parseInt(process.env.SUMMARY_MAX_ARTICLE_TOKENS || '24000', 10);
+export const COMMENT_BUDGET = parseInt(process.env.COMMENT_DIGEST_BUDGET || '3000', 10);
+export const STORY_SOURCES = (process.env.HN_STORY_SOURCES || 'algolia,firebase')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+export const STORY_CATEGORIES = (process.env.STORY_CATEGORIES || 'AI,安全,编程语言,开发工具,系统与基础设施,创业与商业,科学,硬件,社会与文化,其他')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+export const LOCALES = (process.env.OUTPUT_LOCALES || 'zh-CN')
+  .split(',')
+  .map(code => code.trim())
+  .filter(Boolean);
+// 额外的导出格式（Markdown 始终输出）
+export const EXPORT_FORMATS = (process.env.EXPORT_FORMATS || '')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+export const HISTORY_DAYS = parseInt(process.env.HISTORY_DAYS || '30', 10);
+export const FEED_DAYS = parseInt(process.env.FEED_DAYS || '7', 10);
+export const TIMEZONE = process.env.TIMEZONE || 'UTC';
+export const RUNS_DIR = process.env.RUNS_DIR || join(ROOT_DIR, 'runs');
+export const CRAWL_CONCURRENCY = parseInt(process.env.CRAWL_CONCURRENCY || '5', 10);
+
+const PROMPTS_DIR = process.env.PROMPTS_DIR || join(ROOT_DIR, 'prompts');
+
+const CACHE_DIR = process.env.CACHE_DIR || join(ROOT_DIR, '.cache');
+const CACHE_TTL_HOURS = parseFloat(process.env.CACHE_TTL_HOURS || '168');
+const CACHE_MAX_MB = parseFloat(process.env.CACHE_MAX_MB || '200');
+
+// 非 LLM 的限流服务；LLM 按 Provider 名称限流
+const RATE_LIMITED_SERVICES = ['jina', 'algolia', 'firebase', 'github', 'web', 'telegram'];
+
+/**
+ * 根据环境变量和命令行参数构建 Pipeline 配置
+ */
+export function loadPipelineConfig(options: CommonCliOptions): PipelineConfig {
+  const githubToken = process.env.GITHUB_TOKEN;
+  const targetRepo = process.env.TARGET_REPO;
+  const telegramEnabled = process.env.TELEGRAM_ENABLED === 'true';
+
+  const defaultPublishers = process.env.PUBLISHERS
+    ? process.env.PUBLISHERS.split(',').map(name => name.trim()).filter(Boolean)
+    : ['github', ...(telegramEnabled ? ['telegram'] : [])];
+  const publishers = options.publishers ? [...options.publishers] : defaultPublishers;
+  if (options.output && !publishers.includes('local')) {
+    publishers.push('local');
+  }
+
+  return {
+    runsDir: RUNS_DIR,
+    timeZone: options.timezone || TIMEZONE,
+    storyLimit: options.limit ?? STORY_LIMIT,
+    selection: loadSelectionPolicy(),
+    storySources: STORY_SOURCES,
+    summaryMaxLength: SUMMARY_MAX_LENGTH,
+    summaryChunkTokens: SUMMARY_CHUNK_TOKENS,
+    summaryMaxArticleTokens: SUMMARY_MAX_ARTICLE_TOKENS,
+    commentBudget: COMMENT_BUDGET,
+    crawlConcurrency: CRAWL_CONCURRENCY,
+    jinaApiKey: process.env.JINA_API_KEY,
+    llm: loadLLMConfigFromEnv(),
+    usage: loadUsageConfig(),
+    titleBatch: process.env.LLM_TITLE_BATCH !== 'false',
+    locales: LOCALES,
+    categories: STORY_CATEGORIES,
+    groupByCategory: process.env.GROUP_BY_CATEGORY === 'true',
+    dailyOverview: process.env.DAILY_OVERVIEW === 'true',
+    history: {
+      enabled: process.env.HISTORY_DEDUPE !== 'false',
+      file: process.env.HISTORY_FILE || join(RUNS_DIR, 'history.json'),
+      days: HISTORY_DAYS,
+    },
+    trendingSection: process.env.TRENDING_SECTION === 'true',
+    exportFormats: ['markdown', ...EXPORT_FORMATS.filter(name => name !== 'markdown')],
+    feedDays: FEED_DAYS,
+    siteUrl: process.env.SITE_URL,
+    permalink: process.env.SITE_PERMALINK || (GITHUB_LAYOUTS[process.env.GITHUB_LAYOUT || 'jekyll'] ?? GITHUB_LAYOUTS.jekyll).permalink,
+    publishers,
+    publisherRetries: loadPublisherRetries(),
+    outputDir: options.output,
+    github: githubToken && targetRepo
+      ? {
+          token: githubToken,
+          repo: targetRepo,
+          branch: process.env.TARGET_BRANCH || 'main',
+          layout: process.env.GITHUB_LAYOUT || 'jekyll',
+          postPath: process.env.GITHUB_POST_PATH,
+          assetDir: process.env.GITHUB_ASSET_DIR,
+          pullRequest: process.env.GITHUB_PULL_REQUEST === 'true',
+        }
+      : undefined,
+    telegram: {
+      botToken: process.env.TELEGRAM_BOT_TOKEN,
+      channelId: process.env.TELEGRAM_CHANNEL_ID,
+      mode: process.env.TELEGRAM_MODE || 'digest',
+      pin: process.env.TELEGRAM_PIN === 'true',
+    },
+    webhook: process.env.WEBHOOK_URL
+      ? { url: process.env.WEBHOOK_URL, secret: process.env.WEBHOOK_SECRET }
+      : undefined,
+    slack: process.env.SLACK_WEBHOOK_URL
+      ? { webhookUrl: process.env.SLACK_WEBHOOK_URL }
+      : undefined,
+    discord: process.env.DISCORD_WEBHOOK_URL
+      ? { webhookUrl: process.env.DISCORD_WEBHOOK_URL }
+      : undefined,
+  };
+}
+
+/**
+ * 各发布目标的重试次数：PUBLISH_RETRIES（默认 2），PUBLISH_<NAME>_RETRIES 单独覆盖
+ */
+function loadPublisherRetries(env: NodeJS.ProcessEnv = process.env): Record<string, number> {
+  const fallback = parseInt(env.PUBLISH_RETRIES || '2', 10);
+  return Object.fromEntries(getPublisherNames().map(name => {
+    const value = parseInt(env[`PUBLISH_${name.toUpperCase()}_RETRIES`] || '', 10);
+    return [name, value >= 0 ? value : fallback];
+  }));
+}
+
+/**
+ * 文章选择策略，未设置的项使用默认值（只按 points 排序）
+ *
+ * SELECTION_WEIGHTS 格式为 points:1,comments:0.5,velocity:2
+ */
+function loadSelectionPolicy(env: NodeJS.ProcessEnv = process.env): SelectionPolicy {
+  const list = (value: string | undefined) => (value || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+  const number = (value: string | undefined, fallback: number) => (value ? Number(value) : fallback);
+
+  const weights = { ...DEFAULT_SELECTION_POLICY.weights };
+  if (env.SELECTION_WEIGHTS) {
+    // 只写出的项生效，其余为 0；未知的项由 stories 阶段校验时报错
+    weights.points = 0;
+    for (const [name, value] of list(env.SELECTION_WEIGHTS).map(item => item.split(':'))) {
+      (weights as Record<string, number>)[name] = Number(value);
+    }
+  }
+
+  return {
+    weights,
+    allowDomains: list(env.SELECTION_DOMAIN_ALLOW),
+    denyDomains: list(env.SELECTION_DOMAIN_DENY),
+    includeKeywords: list(env.SELECTION_KEYWORDS_INCLUDE),
+    excludeKeywords: list(env.SELECTION_KEYWORDS_EXCLUDE),
+    domainCap: number(env.SELECTION_DOMAIN_CAP, DEFAULT_SELECTION_POLICY.domainCap),
+    showSlots: number(env.SELECTION_SHOW_HN_SLOTS, DEFAULT_SELECTION_POLICY.showSlots),
+    askSlots: number(env.SELECTION_ASK_HN_SLOTS, DEFAULT_SELECTION_POLICY.askSlots),
+    candidates: number(env.SELECTION_CANDIDATES, DEFAULT_SELECTION_POLICY.candidates),
+  };
+}
+
+/**
+ * LLM 价格表和费用预算
+ *
+ * LLM_PRICES 格式为 deepseek/deepseek-v4-flash=0.27/1.10,ollama=0/0（每百万输入 / 输出 token 的价格）
+ */
+function loadUsageConfig(env: NodeJS.ProcessEnv = process.env): UsageConfig {
+  return {
+    prices: parsePrices(env.LLM_PRICES || ''),
+    budget: env.LLM_BUDGET ? Number(env.LLM_BUDGET) : undefined,
+  };
+}
+
+/**
+ * 初始化缓存，按参数跳过或清空
+ */
+export async function initCache(options: CommonCliOptions): Promise<void> {
+  cache.init({
+    dir: CACHE_DIR,
+    ttlMs: CACHE_TTL_HOURS * 3600 * 1000,
+    maxBytes: CACHE_MAX_MB * 1024 * 1024,
+    enabled: !options.noCache,
+  });
+  if (options.purgeCache) {
+    await cache.purge();
+    console.log('🗑️  已清空缓存');
+  }
+}
+
+/**
+ * 从环境变量读取各服务的限流配置
+ *
+ * RATE_LIMIT_<SERVICE>_CONCURRENCY / _RPM / _TPM，例如 RATE_LIMIT_JINA_RPM、RATE_LIMIT_DEEPSEEK_TPM
+ */
+export function initRateLimiters(env: NodeJS.ProcessEnv = process.env): void {
+  for (const service of [...RATE_LIMITED_SERVICES, ...getRegisteredLLMProviders()]) {
+    const prefix = `RATE_LIMIT_${service.toUpperCase().replace(/-/g, '_')}`;
+    const options: Partial<RateLimitOptions> = {};
+
+    const concurrency = parseInt(env[`${prefix}_CONCURRENCY`] || '', 10);
+    const rpm = parseFloat(env[`${prefix}_RPM`] || '');
+    const tpm = parseFloat(env[`${prefix}_TPM`] || '');
+    if (concurrency > 0) options.maxConcurrent = concurrency;
+    if (rpm > 0) options.requestsPerMinute = rpm;
+    if (tpm > 0) options.tokensPerMinute = tpm;
+
+    if (Object.keys(options).length > 0) {
+      configureLimiter(service, options);
+    }
+  }
+}
+
+/**
+ * 加载提示词模板，模板格式错误时抛出 PromptError
+ */
+export async function initPrompts(): Promise<void> {
+  await prompts.load(PROMPTS_DIR);
+}
@@ -0,0 +1,56 @@
+/**
+ * 英文（只输出摘要，保留原标题）
+ */
+
+import type { LocaleDefinition } from './types';
+
+export const en: LocaleDefinition = {
+  code: 'en',
+  lang: 'en',
+  fileSuffix: 'en',
+  translateTitles: false,
+  summaryOnly: true,
+  language: 'English',
+  listSeparator: ', ',
+  labels: {
+    siteTitle: 'HackerNews Daily',
+    noSummary: 'No summary available',
+    noDescription: 'No description available',
+    noComments: 'No comments',
+    publishedAt: 'Posted',
+    link: 'Link',
+    category: 'Category',
+    tags: 'Tags',
+    description: 'Summary',
+    keyPoints: 'Key points',
+    comments: 'Discussion',
+    uncategorized: 'Other',
+    source: 'Article',
+    discussion: 'HN discussion',
+    viewPost: 'Read more',
+    storyCount: '{count} stories',
+    trending: 'Still trending',
+    firstPublished: 'First featured',
+    weeklyTitle: 'HackerNews Weekly',
+    monthlyTitle: 'HackerNews Monthly',
+    overview: 'Overview',
+    topStories: 'Top stories',
+    recurringThemes: 'Recurring themes',
+    mostDiscussed: 'Most discussed',
+    commentCount: '{count} comments',
+    themeStats: '{days} days · {count} stories',
+    todayHighlights: 'Today\'s highlights',
+    themes: 'Themes',
+  },
+  categoryNames: {
+    '安全': 'Security',
+    '编程语言': 'Programming Languages',
+    '开发工具': 'Developer Tools',
+    '系统与基础设施': 'Systems & Infrastructure',
+    '创业与商业': 'Startups & Business',
+    '科学': 'Science',
+    '硬件': 'Hardware',
+    '社会与文化': 'Society & Culture',
+    '其他': 'Other',
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * 输出语言注册表
+ */
+
+import { zhCN } from './zh-CN';
+import { zhTW } from './zh-TW';
+import { ja } from './ja';
+import { en } from './en';
+import type { LocaleDefinition } from './types';
+
+export type { LocaleDefinition, LocaleLabels } from './types';
+
+export const DEFAULT_LOCALE = 'zh-CN';
+
+const LOCALES: Record<string, LocaleDefinition> = {
+  'zh-CN': zhCN,
+  'zh-TW': zhTW,
+  'ja': ja,
+  'en': en,
+};
+
+export function getSupportedLocales(): string[] {
+  return Object.keys(LOCALES);
+}
+
+export function isSupportedLocale(code: string): boolean {
+  return code in LOCALES;
+}
+
+export function getLocale(code: string = DEFAULT_LOCALE): LocaleDefinition {
+  const locale = LOCALES[code];
+  if (!locale) {
+    throw new Error(`Unknown locale "${code}" (available: ${getSupportedLocales().join(', ')})`);
+  }
+  return locale;
+}
+
+/**
+ * 分类名称的本地化显示
+ */
+export function localizeCategory(locale: LocaleDefinition, category: string): string {
+  return locale.categoryNames?.[category] ?? category;
+}
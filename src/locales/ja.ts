@@ -0,0 +1,56 @@
+/**
+ * 日语
+ */
+
+import type { LocaleDefinition } from './types';
+
+export const ja: LocaleDefinition = {
+  code: 'ja',
+  lang: 'ja',
+  fileSuffix: 'ja',
+  translateTitles: true,
+  summaryOnly: false,
+  language: '日本語',
+  listSeparator: '、',
+  labels: {
+    siteTitle: 'HackerNews Daily',
+    noSummary: '要約なし',
+    noDescription: '説明なし',
+    noComments: 'コメントなし',
+    publishedAt: '投稿日時',
+    link: 'リンク',
+    category: 'カテゴリ',
+    tags: 'タグ',
+    description: '概要',
+    keyPoints: 'ポイント',
+    comments: 'コメントの要点',
+    uncategorized: 'その他',
+    source: '原文',
+    discussion: 'HN のコメント',
+    viewPost: '詳細を見る',
+    storyCount: '全 {count} 件',
+    trending: '引き続き話題',
+    firstPublished: '初掲載',
+    weeklyTitle: 'HackerNews Weekly',
+    monthlyTitle: 'HackerNews Monthly',
+    overview: '概要',
+    topStories: '人気記事',
+    recurringThemes: '繰り返し登場したテーマ',
+    mostDiscussed: '議論が多かった記事',
+    commentCount: 'コメント {count} 件',
+    themeStats: '{days} 日 · {count} 件',
+    todayHighlights: '今日の注目',
+    themes: 'テーマ',
+  },
+  categoryNames: {
+    '安全': 'セキュリティ',
+    '编程语言': 'プログラミング言語',
+    '开发工具': '開発ツール',
+    '系统与基础设施': 'システム・インフラ',
+    '创业与商业': 'スタートアップ・ビジネス',
+    '科学': 'サイエンス',
+    '硬件': 'ハードウェア',
+    '社会与文化': '社会・文化',
+    '其他': 'その他',
+  },
+};
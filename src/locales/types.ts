@@ -0,0 +1,63 @@
+/**
+ * 输出语言定义（提示词模板位于 prompts/<locale>/ 目录）
+ */
+
+/**
+ * Markdown 与通知文案
+ */
+export interface LocaleLabels {
+  siteTitle: string;
+  noSummary: string;
+  noDescription: string;
+  noComments: string;
+  publishedAt: string;
+  link: string;
+  category: string;
+  tags: string;
+  description: string;
+  keyPoints: string;
+  comments: string;
+  uncategorized: string;
+  // 通知中的原文 / HN 讨论链接
+  source: string;
+  discussion: string;
+  viewPost: string;
+  // {count} 替换为文章数
+  storyCount: string;
+  // 「仍在热议」小节
+  trending: string;
+  firstPublished: string;
+  // 周报 / 月报
+  weeklyTitle: string;
+  monthlyTitle: string;
+  overview: string;
+  topStories: string;
+  recurringThemes: string;
+  mostDiscussed: string;
+  // {count} 替换为评论数
+  commentCount: string;
+  // {days} 替换为出现的天数，{count} 替换为文章数
+  themeStats: string;
+  // 日报开头的「今日看点」和主题分组
+  todayHighlights: string;
+  themes: string;
+}
+
+export interface LocaleDefinition {
+  code: string;
+  // front matter 中的 lang
+  lang: string;
+  // 文件名后缀，默认语言为空以保持原有文件名
+  fileSuffix: string;
+  // 为 false 时保留英文标题
+  translateTitles: boolean;
+  // 只输出摘要（不生成评论摘要和结构化信息）
+  summaryOnly: boolean;
+  // 提示词模板中的 {{language}}
+  language: string;
+  // 提示词中列表的分隔符
+  listSeparator: string;
+  labels: LocaleLabels;
+  // 分类名称的本地化写法，未列出的原样显示
+  categoryNames?: Record<string, string>;
+}
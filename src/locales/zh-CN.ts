@@ -0,0 +1,45 @@
+/**
+ * 简体中文
+ */
+
+import type { LocaleDefinition } from './types';
+
+export const zhCN: LocaleDefinition = {
+  code: 'zh-CN',
+  lang: 'zh-CN',
+  fileSuffix: '',
+  translateTitles: true,
+  summaryOnly: false,
+  language: '简体中文',
+  listSeparator: '、',
+  labels: {
+    siteTitle: 'HackerNews Daily',
+    noSummary: '暂无摘要',
+    noDescription: '暂无描述',
+    noComments: '暂无评论',
+    publishedAt: '发布时间',
+    link: '链接',
+    category: '分类',
+    tags: '标签',
+    description: '描述',
+    keyPoints: '要点',
+    comments: '评论要点',
+    uncategorized: '其他',
+    source: '原文',
+    discussion: 'HN 讨论',
+    viewPost: '查看详情',
+    storyCount: '共 {count} 篇文章',
+    trending: '仍在热议',
+    firstPublished: '首次收录',
+    weeklyTitle: 'HackerNews 周报',
+    monthlyTitle: 'HackerNews 月报',
+    overview: '概览',
+    topStories: '热门文章',
+    recurringThemes: '反复出现的主题',
+    mostDiscussed: '讨论最多',
+    commentCount: '{count} 条评论',
+    themeStats: '{days} 天 · {count} 篇',
+    todayHighlights: '今日看点',
+    themes: '主题',
+  },
+};
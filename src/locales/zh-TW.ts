@@ -0,0 +1,55 @@
+/**
+ * 繁体中文
+ */
+
+import type { LocaleDefinition } from './types';
+
+export const zhTW: LocaleDefinition = {
+  code: 'zh-TW',
+  lang: 'zh-TW',
+  fileSuffix: 'zh-tw',
+  translateTitles: true,
+  summaryOnly: false,
+  language: '繁體中文',
+  listSeparator: '、',
+  labels: {
+    siteTitle: 'HackerNews Daily',
+    noSummary: '暫無摘要',
+    noDescription: '暫無描述',
+    noComments: '暫無評論',
+    publishedAt: '發布時間',
+    link: '連結',
+    category: '分類',
+    tags: '標籤',
+    description: '描述',
+    keyPoints: '要點',
+    comments: '評論要點',
+    uncategorized: '其他',
+    source: '原文',
+    discussion: 'HN 討論',
+    viewPost: '查看詳情',
+    storyCount: '共 {count} 篇文章',
+    trending: '仍在熱議',
+    firstPublished: '首次收錄',
+    weeklyTitle: 'HackerNews 週報',
+    monthlyTitle: 'HackerNews 月報',
+    overview: '概覽',
+    topStories: '熱門文章',
+    recurringThemes: '反覆出現的主題',
+    mostDiscussed: '討論最多',
+    commentCount: '{count} 則評論',
+    themeStats: '{days} 天 · {count} 篇',
+    todayHighlights: '今日看點',
+    themes: '主題',
+  },
+  categoryNames: {
+    '安全': '資安',
+    '编程语言': '程式語言',
+    '开发工具': '開發工具',
+    '系统与基础设施': '系統與基礎設施',
+    '创业与商业': '創業與商業',
+    '科学': '科學',
+    '硬件': '硬體',
+    '社会与文化': '社會與文化',
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Pipeline 上下文工具
+ */
+
+import type { ProcessedStory, Story } from '../types';
+import type { PipelineContext, StageName, StageOutputs } from './types';
+
+/**
+ * 取前序阶段的产出
+ */
+export function requireOutput<N extends StageName>(ctx: PipelineContext, stage: N): StageOutputs[N] {
+  const output = ctx.outputs[stage];
+  if (output === undefined) {
+    throw new Error(`Stage "${stage}" has no output`);
+  }
+  return output as StageOutputs[N];
+}
+
+/**
+ * 本期入选的文章（旧的 checkpoint 中没有 previouslyPublished 字段，全部入选）
+ */
+export function selectedStories(stories: Story[]): Story[] {
+  return stories.filter(story => !story.previouslyPublished);
+}
+
+/**
+ * 此前已发布、今天仍在榜上的文章
+ */
+export function returningStories(stories: Story[]): Story[] {
+  return stories.filter(story => story.previouslyPublished);
+}
+
+/**
+ * 取指定语言的文章
+ */
+export function storiesForLocale(stories: ProcessedStory[], locale: string): ProcessedStory[] {
+  return stories.filter(story => story.locale === locale);
+}
@@ -0,0 +1,188 @@
+/**
+ * Pipeline - 分阶段执行，每个阶段完成后写入 checkpoint
+ *
+ * 重跑时从第一个未完成的阶段继续
+ */
+
+import { RunState } from './runState';
+import { STAGE_ORDER } from './types';
+import { getDayBoundaries } from '../utils/date';
+import { usage } from '../services/usage';
+import type { UsageReport } from '../services/usage';
+import { fetchStoriesStage } from './stages/fetchStories';
+import { crawlStage } from './stages/crawl';
+import { commentsStage } from './stages/comments';
+import { llmStage } from './stages/llm';
+import { renderStage } from './stages/render';
+import { publishStage } from './stages/publish';
+import type { PipelineConfig, PipelineContext, PipelineOptions, Stage, StageName, StageOutputs } from './types';
+
+export { RunState } from './runState';
+export { requireOutput, storiesForLocale, selectedStories, returningStories } from './context';
+export * from './types';
+
+export const STAGES: Stage[] = [
+  fetchStoriesStage,
+  crawlStage,
+  commentsStage,
+  llmStage,
+  renderStage,
+  publishStage,
+];
+
+/**
+ * 计算本次需要执行的阶段
+ *
+ * 从第一个未完成的阶段开始，之后的阶段即使已完成也要基于新结果重跑
+ */
+export function planStages(state: RunState, options: PipelineOptions = {}): Stage[] {
+  if (options.only) {
+    return STAGES.filter(stage => stage.name === options.only);
+  }
+
+  const first = state.firstIncomplete();
+  if (!first) {
+    return [];
+  }
+  const last = options.until ? STAGE_ORDER.indexOf(options.until) : STAGE_ORDER.length - 1;
+  return STAGES.filter(stage => {
+    const index = STAGE_ORDER.indexOf(stage.name);
+    return index >= STAGE_ORDER.indexOf(first) && index <= last;
+  });
+}
+
+/**
+ * 检查待执行阶段所需的配置
+ */
+export function validateStages(stages: Stage[], config: PipelineConfig): string[] {
+  return stages.flatMap(stage => stage.validate?.(config) ?? []);
+}
+
+/**
+ * 按顺序执行阶段，返回提前结束的原因（正常结束时为 undefined）
+ */
+export async function runPipeline(
+  ctx: PipelineContext,
+  state: RunState,
+  options: PipelineOptions = {}
+): Promise<string | undefined> {
+  const total = STAGES.length;
+  const last = options.until ? STAGE_ORDER.indexOf(options.until) : STAGE_ORDER.length - 1;
+
+  for (const stage of STAGES) {
+    const index = STAGE_ORDER.indexOf(stage.name);
+    const step = `[${index + 1}/${total}]`;
+    const isTarget = options.only === stage.name;
+
+    if (index > last) {
+      break;
+    }
+
+    let output: StageOutputs[StageName];
+
+    if (options.only && !isTarget) {
+      // 单阶段模式：前序阶段只读取 checkpoint
+      if (index > STAGE_ORDER.indexOf(options.only)) {
+        break;
+      }
+      if (!state.isCompleted(stage.name)) {
+        throw new Error(`阶段 "${options.only}" 依赖的阶段 "${stage.name}" 尚未完成`);
+      }
+      output = await state.readCheckpoint(stage.name);
+    } else if (state.isCompleted(stage.name) && !isTarget) {
+      output = await state.readCheckpoint(stage.name);
+      console.log(`\n${step} ⏭️  ${stage.title}（已完成，读取 checkpoint）`);
+    } else {
+      console.log(`\n${step} ${stage.title}...`);
+      try {
+        output = await stage.run(ctx);
+        await state.complete(stage.name, output);
+      } catch (error) {
+        await state.fail(stage.name, error);
+        throw error;
+      }
+
+      // 之后阶段的 checkpoint 基于旧结果生成，全部作废
+      const stale = await state.resetAfter(stage.name);
+      if (stale.length > 0) {
+        console.log(`  ♻️  已重置之后的阶段: ${stale.join(', ')}（下次运行时重新生成）`);
+      }
+    }
+
+    (ctx.outputs as Record<StageName, unknown>)[stage.name] = output;
+
+    const haltReason = stage.haltReason?.(output as never);
+    if (haltReason) {
+      console.log(`⚠️  ${haltReason}，退出`);
+      return haltReason;
+    }
+  }
+  return undefined;
+}
+
+export class PipelineConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(errors.join('; '));
+    this.name = 'PipelineConfigError';
+  }
+}
+
+export interface RunResult {
+  // completed: 执行完毕；skipped: 无需执行的阶段；halted: 提前结束
+  status: 'completed' | 'skipped' | 'halted';
+  ctx: PipelineContext;
+  state: RunState;
+  // 本次运行的 LLM 用量
+  usage: UsageReport;
+}
+
+/**
+ * 运行指定日期的流水线
+ *
+ * 先检查待执行阶段的配置，缺失时抛出 PipelineConfigError；
+ * LLM 用量（含失败的运行）累加到 run 目录的 usage.json，此前运行的费用计入预算
+ */
+export async function runForDate(
+  runDate: string,
+  config: PipelineConfig,
+  options: PipelineOptions = {}
+): Promise<RunResult> {
+  const state = await RunState.load(config.runsDir, runDate);
+  const plannedStages = planStages(state, options);
+
+  const errors = validateStages(plannedStages, config);
+  if (errors.length > 0) {
+    throw new PipelineConfigError(errors);
+  }
+
+  if (options.limit !== undefined && state.isCompleted('stories') && !plannedStages.some(stage => stage.name === 'stories')) {
+    console.warn(`⚠️  ${runDate} 的文章列表已生成，--limit 不生效（如需重新选择文章请先执行 npm run runs -- reset ${runDate}）`);
+  }
+
+  const { start, end } = getDayBoundaries(runDate, config.timeZone);
+  const ctx: PipelineContext = { runDate, start, end, config, outputs: {} };
+
+  const previousUsage = await state.readUsage();
+  usage.init(config.usage, previousUsage?.total.cost ?? 0);
+  if (plannedStages.length === 0 && !options.until) {
+    return { status: 'skipped', ctx, state, usage: usage.getReport() };
+  }
+
+  const resumeFrom = plannedStages[0]?.name;
+  if (!options.only && resumeFrom && resumeFrom !== STAGE_ORDER[0]) {
+    console.log(`♻️  从阶段 "${resumeFrom}" 继续 ${runDate} 的任务`);
+  }
+
+  try {
+    const haltReason = await runPipeline(ctx, state, options);
+    return { status: haltReason ? 'halted' : 'completed', ctx, state, usage: usage.getReport() };
+  } catch (error) {
+    console.error(`   进度已保存到 ${state.dir}，重新运行将从失败的阶段继续`);
+    throw error;
+  } finally {
+    const report = usage.getReport();
+    if (report.total.calls + report.total.cached > 0) {
+      await state.addUsage(report);
+    }
+  }
+}
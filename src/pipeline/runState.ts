@@ -0,0 +1,158 @@
+/**
+ * Run 状态与 checkpoint 存储
+ *
+ * 每个目标日期对应一个 run 目录：
+ *   <runsDir>/<date>/state.json   各阶段状态
+ *   <runsDir>/<date>/<stage>.json 阶段产出
+ *   <runsDir>/<date>/usage.json   LLM 用量与费用
+ */
+
+import { mkdir, readFile, writeFile, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { mergeUsageReports } from '../services/usage';
+import type { UsageReport } from '../services/usage';
+import { STAGE_ORDER } from './types';
+import type { StageName, StageOutputs } from './types';
+
+export interface StageRecord {
+  status: 'completed' | 'failed';
+  updatedAt: string;
+  error?: string;
+}
+
+export interface RunStateData {
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  stages: Partial<Record<StageName, StageRecord>>;
+}
+
+export class RunState {
+  private constructor(
+    readonly dir: string,
+    private data: RunStateData
+  ) {}
+
+  /**
+   * 加载指定日期的 run 状态（不存在则新建）
+   */
+  static async load(runsDir: string, date: string): Promise<RunState> {
+    const dir = join(runsDir, date);
+    try {
+      const data = JSON.parse(await readFile(join(dir, 'state.json'), 'utf-8')) as RunStateData;
+      return new RunState(dir, data);
+    } catch {
+      const now = new Date().toISOString();
+      return new RunState(dir, { date, createdAt: now, updatedAt: now, stages: {} });
+    }
+  }
+
+  /**
+   * 列出已有的 run 日期
+   */
+  static async list(runsDir: string): Promise<string[]> {
+    try {
+      const names = await readdir(runsDir);
+      return names.filter(name => /^\d{4}-\d{2}-\d{2}$/.test(name)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  get date(): string {
+    return this.data.date;
+  }
+
+  getStages(): Partial<Record<StageName, StageRecord>> {
+    return { ...this.data.stages };
+  }
+
+  isCompleted(stage: StageName): boolean {
+    return this.data.stages[stage]?.status === 'completed';
+  }
+
+  /**
+   * 第一个未完成的阶段，全部完成时返回 null
+   */
+  firstIncomplete(): StageName | null {
+    return STAGE_ORDER.find(stage => !this.isCompleted(stage)) ?? null;
+  }
+
+  async readCheckpoint<N extends StageName>(stage: N): Promise<StageOutputs[N]> {
+    return JSON.parse(await readFile(this.checkpointPath(stage), 'utf-8')) as StageOutputs[N];
+  }
+
+  async complete<N extends StageName>(stage: N, output: StageOutputs[N]): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.checkpointPath(stage), JSON.stringify(output, null, 2), 'utf-8');
+    this.data.stages[stage] = { status: 'completed', updatedAt: new Date().toISOString() };
+    await this.save();
+  }
+
+  async fail(stage: StageName, error: unknown): Promise<void> {
+    this.data.stages[stage] = {
+      status: 'failed',
+      updatedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+    await this.save();
+  }
+
+  /**
+   * 重置状态；指定阶段时只重置该阶段及之后的阶段
+   */
+  async reset(fromStage?: StageName): Promise<void> {
+    const from = fromStage ? STAGE_ORDER.indexOf(fromStage) : 0;
+    for (const stage of STAGE_ORDER.slice(from)) {
+      delete this.data.stages[stage];
+      await rm(this.checkpointPath(stage), { force: true });
+    }
+    await this.save();
+  }
+
+  /**
+   * 读取 LLM 用量报告，没有记录时返回 null
+   */
+  async readUsage(): Promise<UsageReport | null> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, 'usage.json'), 'utf-8')) as UsageReport;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 把本次运行的用量累加到用量报告（断点续跑、单阶段重跑的费用都计入）
+   */
+  async addUsage(report: UsageReport): Promise<void> {
+    const previous = await this.readUsage();
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, 'usage.json'),
+      JSON.stringify(previous ? mergeUsageReports(previous, report) : report, null, 2),
+      'utf-8'
+    );
+  }
+
+  /**
+   * 重置指定阶段之后已完成的阶段，返回被重置的阶段
+   */
+  async resetAfter(stage: StageName): Promise<StageName[]> {
+    const later = STAGE_ORDER.slice(STAGE_ORDER.indexOf(stage) + 1);
+    const stale = later.filter(name => this.isCompleted(name));
+    if (stale.length > 0) {
+      await this.reset(later[0]);
+    }
+    return stale;
+  }
+
+  private checkpointPath(stage: StageName): string {
+    return join(this.dir, `${stage}.json`);
+  }
+
+  private async save(): Promise<void> {
+    this.data.updatedAt = new Date().toISOString();
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, 'state.json'), JSON.stringify(this.data, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * 阶段 3: 获取评论树并生成评论摘编
+ */
+
+import { fetchCommentDigests } from '../../services/commentDigest';
+import { requireOutput, selectedStories } from '../context';
+import type { Stage } from '../types';
+
+export const commentsStage: Stage<'comments'> = {
+  name: 'comments',
+  title: '💬 获取评论',
+
+  async run(ctx) {
+    const stories = selectedStories(requireOutput(ctx, 'stories'));
+    const digests = await fetchCommentDigests(stories, ctx.config.commentBudget);
+    const withComments = digests.filter(d => d.length > 0).length;
+    console.log(`✓ 评论获取完成: ${withComments}/${stories.length} 篇有评论`);
+    return digests;
+  },
+};
@@ -0,0 +1,28 @@
+/**
+ * 阶段 2: 按内容类型爬取文章内容
+ */
+
+import { fetchArticles } from '../../services/articleFetcher';
+import { requireOutput, selectedStories } from '../context';
+import type { Stage } from '../types';
+
+export const crawlStage: Stage<'crawl'> = {
+  name: 'crawl',
+  title: '🕷️  爬取内容',
+
+  async run(ctx) {
+    const stories = selectedStories(requireOutput(ctx, 'stories'));
+    if (!ctx.config.jinaApiKey) {
+      console.log('  未设置 JINA_API_KEY，使用本地提取');
+    }
+
+    const articleMetadata = await fetchArticles(stories, {
+      jinaApiKey: ctx.config.jinaApiKey,
+      githubToken: ctx.config.github?.token,
+      concurrency: ctx.config.crawlConcurrency,
+    });
+    const crawlSuccess = articleMetadata.filter(m => m.fullContent).length;
+    console.log(`✓ 爬取完成: ${crawlSuccess}/${stories.length}`);
+    return articleMetadata;
+  },
+};
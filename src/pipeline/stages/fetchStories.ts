@@ -0,0 +1,99 @@
+/**
+ * 阶段 1: 获取 HackerNews 文章列表
+ *
+ * 取当天的候选文章 → 合并重复链接、跳过已发布文章 → 按选择策略选出 storyLimit 篇
+ */
+
+import { fetchTopStories, STORY_SOURCE_NAMES } from '../../api';
+import { PublishedHistory, mergeDuplicateStories } from '../../services/history';
+import { checkFilters, formatRejected, scoreStory, selectStories, validateSelectionPolicy } from '../../services/selection';
+import { addDays } from '../../utils/date';
+import { selectedStories } from '../context';
+import type { Story } from '../../types';
+import type { PipelineContext, Stage } from '../types';
+
+export const fetchStoriesStage: Stage<'stories'> = {
+  name: 'stories',
+  title: '📥 获取 HackerNews 文章',
+
+  validate(config) {
+    const errors = validateSelectionPolicy(config.selection);
+    const unknown = config.storySources.filter(name => !STORY_SOURCE_NAMES.includes(name));
+    if (unknown.length > 0) {
+      errors.push(`未知文章来源: ${unknown.join(', ')}（可选: ${STORY_SOURCE_NAMES.join(', ')}）`);
+    }
+    return errors;
+  },
+
+  async run(ctx) {
+    const { storyLimit, selection, history } = ctx.config;
+    const { source, stories } = await fetchTopStories(
+      Math.max(selection.candidates, storyLimit),
+      ctx.start,
+      ctx.end,
+      ctx.config.storySources
+    );
+    console.log(`✓ 获取 ${stories.length} 篇候选文章 (${source})`);
+
+    const { fresh, returning } = history.enabled
+      ? await dedupeStories(ctx, stories)
+      : { fresh: stories, returning: [] };
+
+    const { selected, rejected } = selectStories(fresh, selection, storyLimit, ctx.end);
+    const filtered = formatRejected(rejected);
+    console.log(`✓ 选出 ${selected.length} 篇文章${filtered ? `（过滤: ${filtered}）` : ''}`);
+
+    return [...selected, ...stillTrending(ctx, selected, returning)];
+  },
+
+  haltReason(stories) {
+    return selectedStories(stories).length === 0 ? '无文章' : undefined;
+  },
+};
+
+/**
+ * 合并同一天的重复链接，分出此前已发布的文章（标记后保留，供「仍在热议」使用）
+ */
+async function dedupeStories(
+  ctx: PipelineContext,
+  stories: Story[]
+): Promise<{ fresh: Story[]; returning: Story[] }> {
+  const { history: historyConfig } = ctx.config;
+  const history = await PublishedHistory.load(historyConfig.file);
+  const since = addDays(ctx.runDate, -historyConfig.days);
+
+  const merged = mergeDuplicateStories(stories);
+  const fresh: Story[] = [];
+  const returning: Story[] = [];
+  for (const story of merged) {
+    const entry = history.find(story, since, ctx.runDate);
+    if (entry) {
+      returning.push({ ...story, previouslyPublished: entry.date });
+    } else {
+      fresh.push(story);
+    }
+  }
+
+  const mergedCount = stories.length - merged.length;
+  if (mergedCount > 0 || returning.length > 0) {
+    console.log(`  去重: 合并 ${mergedCount} 篇重复链接，跳过 ${returning.length} 篇已发布文章`);
+  }
+  return { fresh, returning };
+}
+
+/**
+ * 已发布的文章中，通过过滤规则且得分不低于今天入选文章的，仍列入「仍在热议」
+ */
+function stillTrending(ctx: PipelineContext, selected: Story[], returning: Story[]): Story[] {
+  const { selection, storyLimit } = ctx.config;
+  const cutoff = selected.length < storyLimit
+    ? -Infinity
+    : Math.min(...selected.map(story => story.selection!.score));
+
+  return returning
+    .filter(story => !checkFilters(story, selection))
+    .map(story => ({ story, score: scoreStory(story, selection.weights, ctx.end).score }))
+    .filter(item => item.score >= cutoff)
+    .sort((a, b) => b.score - a.score)
+    .map(item => item.story);
+}
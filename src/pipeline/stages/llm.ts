@@ -0,0 +1,150 @@
+/**
+ * 阶段 4: LLM 翻译和摘要
+ */
+
+import { translator, requiredPromptNames } from '../../services/translator';
+import { prompts } from '../../services/prompts';
+import { createTaskProvider, listTaskModels } from '../../services/llm';
+import { formatCost, validateUsageConfig } from '../../services/usage';
+import { formatDateForDisplay } from '../../utils/date';
+import { getLocale, getSupportedLocales, isSupportedLocale } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import { requireOutput, selectedStories } from '../context';
+import type { ProcessedStory } from '../../types';
+import type { PipelineContext, Stage } from '../types';
+
+export const llmStage: Stage<'llm'> = {
+  name: 'llm',
+  title: '🤖 LLM 翻译和摘要',
+
+  validate(config) {
+    const errors: string[] = [];
+    try {
+      createTaskProvider(config.llm);
+      errors.push(...validateUsageConfig(config.usage, listTaskModels(config.llm)));
+    } catch (error) {
+      errors.push(`LLM 配置错误: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const tokenLimits: Array<[string, number]> = [
+      ['SUMMARY_CHUNK_TOKENS', config.summaryChunkTokens],
+      ['SUMMARY_MAX_ARTICLE_TOKENS', config.summaryMaxArticleTokens],
+    ];
+    for (const [name, value] of tokenLimits) {
+      if (!Number.isInteger(value) || value <= 0) {
+        errors.push(`${name} 需要是正整数: ${value}`);
+      }
+    }
+
+    if (config.locales.length === 0) {
+      errors.push('未设置输出语言 OUTPUT_LOCALES');
+    }
+    const unknown = config.locales.filter(code => !isSupportedLocale(code));
+    if (unknown.length > 0) {
+      errors.push(`未知的输出语言: ${unknown.join(', ')}（可选: ${getSupportedLocales().join(', ')}）`);
+    }
+
+    if (!prompts.isLoaded()) {
+      errors.push('提示词模板未加载');
+    } else {
+      for (const code of config.locales.filter(isSupportedLocale)) {
+        const missing = prompts.missing(code, requiredPromptNames(getLocale(code)));
+        if (missing.length > 0) {
+          errors.push(`缺少提示词模板 ${code}/: ${missing.map(name => `${name}.md`).join(', ')}`);
+        }
+      }
+    }
+    return errors;
+  },
+
+  async run(ctx) {
+    const { config } = ctx;
+
+    console.log(`  Provider: ${config.llm.primary.provider}`);
+    if (config.usage.budget !== undefined) {
+      console.log(`  费用预算: ${formatCost(config.usage.budget)}`);
+    }
+    console.log(`  输出语言: ${config.locales.join(', ')}`);
+    translator.init({
+      llm: config.llm,
+      titleBatch: config.titleBatch,
+      chunkTokens: config.summaryChunkTokens,
+      maxArticleTokens: config.summaryMaxArticleTokens,
+    });
+
+    // 所有语言基于同一份爬取结果，共享限流器并行处理
+    const results = await Promise.all(config.locales.map(code => processLocale(ctx, getLocale(code))));
+
+    console.log(`✓ LLM 处理完成`);
+    return results.flat();
+  },
+};
+
+async function processLocale(ctx: PipelineContext, locale: LocaleDefinition): Promise<ProcessedStory[]> {
+  const stories = selectedStories(requireOutput(ctx, 'stories'));
+  const articleMetadata = requireOutput(ctx, 'crawl');
+  const commentsBatch = requireOutput(ctx, 'comments');
+  const { config } = ctx;
+
+  // 各类任务共享同一个限流器，并行提交
+  console.log(`  [${locale.code}] 翻译标题、生成摘要和结构化信息...`);
+  const [titles, contentSummaries, commentSummaries, enrichments] = await Promise.all([
+    locale.translateTitles
+      ? translator.translateTitles(stories.map(s => ({ id: s.id, title: s.title })), locale)
+      : stories.map(() => null),
+    translator.summarizeContents(
+      articleMetadata.map((m, i) => ({ storyId: stories[i]?.id, content: m.fullContent, contentType: m.contentType })),
+      config.summaryMaxLength,
+      locale
+    ),
+    locale.summaryOnly
+      ? stories.map(() => null)
+      : translator.summarizeComments(
+          stories.map((s, i) => ({ storyId: s.id, comments: commentsBatch[i] ?? '' })),
+          config.summaryMaxLength,
+          locale
+        ),
+    locale.summaryOnly
+      ? stories.map(() => null)
+      : translator.enrichStories(
+          stories.map((s, i) => ({
+            storyId: s.id,
+            title: s.title,
+            content: articleMetadata[i]?.fullContent ?? null,
+            contentType: articleMetadata[i]?.contentType ?? 'article',
+          })),
+          config.categories,
+          locale
+        ),
+  ]);
+
+  return stories.map((story, i): ProcessedStory => {
+    const enrichment = enrichments[i]?.value;
+    return {
+      rank: i + 1,
+      storyId: story.id,
+      titleEnglish: story.title,
+      titleChinese: titles[i]?.value || story.title,
+      url: story.url || `https://news.ycombinator.com/item?id=${story.id}`,
+      score: story.score,
+      commentCount: story.descendants,
+      time: formatDateForDisplay(new Date(story.time * 1000), config.timeZone),
+      timestamp: story.time * 1000,
+      description: contentSummaries[i]?.value || locale.labels.noSummary,
+      commentSummary: commentSummaries[i]?.value || null,
+      contentType: enrichment?.contentType ?? articleMetadata[i]?.contentType,
+      locale: locale.code,
+      tldr: enrichment?.tldr,
+      keyPoints: enrichment?.keyPoints,
+      category: enrichment?.category,
+      tags: enrichment?.tags,
+      selection: story.selection,
+      promptVersions: {
+        title: titles[i]?.promptVersion,
+        description: contentSummaries[i]?.promptVersion,
+        commentSummary: commentSummaries[i]?.promptVersion,
+        enrichment: enrichments[i]?.promptVersion,
+      },
+    };
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * 阶段 6: 发布
+ *
+ * 各发布目标独立执行和重试；部分失败时阶段仍视为完成，结果记录在 checkpoint 中
+ */
+
+import { getPublisher, getPublisherNames, runPublisher } from '../../services/publishers';
+import type { PublishContext, PublishResult } from '../../services/publishers';
+import { PublishedHistory } from '../../services/history';
+import { getLocale } from '../../locales';
+import { addDays } from '../../utils/date';
+import { requireOutput, selectedStories, storiesForLocale } from '../context';
+import type { PipelineContext, Stage } from '../types';
+
+export const publishStage: Stage<'publish'> = {
+  name: 'publish',
+  title: '🚀 发布',
+
+  validate(config) {
+    const errors: string[] = [];
+    for (const name of config.publishers) {
+      const publisher = getPublisher(name);
+      if (!publisher) {
+        errors.push(`未知发布目标: ${name}（可选: ${getPublisherNames().join(', ')}）`);
+        continue;
+      }
+      errors.push(...publisher.validate(config));
+    }
+    return errors;
+  },
+
+  async run(ctx) {
+    const processedStories = requireOutput(ctx, 'llm');
+    const rendered = requireOutput(ctx, 'render');
+    const posts = rendered.posts;
+    const { publishers, publisherRetries } = ctx.config;
+
+    if (publishers.length === 0) {
+      console.log('  未选择发布目标，跳过');
+      return { targets: [], results: [] };
+    }
+
+    const { labels } = getLocale(posts[0].locale);
+    const publishContext: PublishContext = {
+      kind: 'daily',
+      date: rendered.date,
+      title: `${labels.siteTitle} - ${rendered.date}`,
+      posts,
+      files: rendered.files ?? [],
+      // 通知类目标只发送主语言的文章
+      stories: storiesForLocale(processedStories, posts[0].locale),
+      config: ctx.config,
+    };
+
+    const results: PublishResult[] = [];
+    for (const name of publishers) {
+      console.log(`  发布到 ${name}...`);
+      const result = await runPublisher(getPublisher(name)!, publishContext, publisherRetries[name] ?? 0);
+      if (result.status === 'success') {
+        console.log(`  ✓ ${name} 发布成功`);
+      }
+      results.push(result);
+    }
+
+    const targets = results.filter(result => result.status === 'success').map(result => result.publisher);
+    if (targets.length === 0) {
+      throw new Error(`所有发布目标均失败: ${results.map(result => `${result.publisher}: ${result.error}`).join('; ')}`);
+    }
+
+    if (ctx.config.history.enabled) {
+      await recordHistory(ctx);
+    }
+    return { targets, results };
+  },
+};
+
+/**
+ * 把本期入选的文章写入历史记录，并清理过期记录
+ */
+async function recordHistory(ctx: PipelineContext): Promise<void> {
+  const { history: historyConfig } = ctx.config;
+  const history = await PublishedHistory.load(historyConfig.file);
+  const stories = selectedStories(requireOutput(ctx, 'stories'));
+  history.record(ctx.runDate, stories);
+  history.prune(addDays(ctx.runDate, -historyConfig.days));
+  await history.save();
+  console.log(`  ✓ 已记录 ${stories.length} 篇文章到发布历史`);
+}
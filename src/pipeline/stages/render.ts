@@ -0,0 +1,166 @@
+/**
+ * 阶段 5: 生成 Markdown 及其他导出格式
+ *
+ * 开启 DAILY_OVERVIEW 时先由 LLM 生成「今日看点」，失败时不输出该小节
+ */
+
+import { getExporter, getExporterNames } from '../../services/exporters';
+import type { DailyStories, ExportContext, ExportedFile } from '../../services/exporters';
+import { PATH_TEMPLATE_VARIABLES } from '../../services/markdownExporter';
+import { translator } from '../../services/translator';
+import { prompts } from '../../services/prompts';
+import { createTaskProvider } from '../../services/llm';
+import { getLocale, isSupportedLocale } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import { addDays } from '../../utils/date';
+import { RunState } from '../runState';
+import { requireOutput, returningStories, storiesForLocale } from '../context';
+import type { DailyOverview, ProcessedStory } from '../../types';
+import type { PipelineContext, RenderedPost, Stage } from '../types';
+
+// 「今日看点」使用的提示词模板
+const OVERVIEW_PROMPTS = ['overview', 'repair'];
+
+export const renderStage: Stage<'render'> = {
+  name: 'render',
+  title: '📝 生成 Markdown',
+
+  validate(config) {
+    const errors: string[] = [];
+    const unknown = config.exportFormats.filter(name => !getExporter(name));
+    if (unknown.length > 0) {
+      errors.push(`未知的导出格式: ${unknown.join(', ')}（可选: ${getExporterNames().join(', ')}）`);
+    }
+
+    const needsSiteUrl = config.exportFormats.filter(name => getExporter(name)?.needsSiteUrl);
+    if (needsSiteUrl.length > 0 && !config.siteUrl) {
+      errors.push(`导出 ${needsSiteUrl.join(', ')} 需要设置 SITE_URL`);
+    }
+    const unknownVariables = [...config.permalink.matchAll(/\{(\w+)\}/g)]
+      .map(match => match[1])
+      .filter(name => !PATH_TEMPLATE_VARIABLES.includes(name));
+    if (unknownVariables.length > 0) {
+      errors.push(`SITE_PERMALINK 中有未知变量: ${unknownVariables.join(', ')}（可选: ${PATH_TEMPLATE_VARIABLES.join(', ')}）`);
+    }
+
+    if (config.dailyOverview) {
+      try {
+        createTaskProvider(config.llm);
+      } catch (error) {
+        errors.push(`LLM 配置错误（今日看点）: ${error instanceof Error ? error.message : error}`);
+      }
+      if (prompts.isLoaded()) {
+        for (const code of config.locales.filter(isSupportedLocale)) {
+          const missing = prompts.missing(code, OVERVIEW_PROMPTS);
+          if (missing.length > 0) {
+            errors.push(`缺少提示词模板 ${code}/: ${missing.map(name => `${name}.md`).join(', ')}（或设置 DAILY_OVERVIEW=false）`);
+          }
+        }
+      }
+    }
+    return errors;
+  },
+
+  async run(ctx) {
+    const processedStories = requireOutput(ctx, 'llm');
+    const { config } = ctx;
+    const exporters = config.exportFormats.map(name => getExporter(name)!);
+    const history = exporters.some(exporter => exporter.needsHistory)
+      ? await loadHistory(ctx)
+      : [];
+
+    const trending = config.trendingSection ? returningStories(requireOutput(ctx, 'stories')) : [];
+
+    if (config.dailyOverview) {
+      translator.init({ llm: config.llm });
+    }
+
+    const posts: RenderedPost[] = [];
+    const files: ExportedFile[] = [];
+    const overviews: DailyOverview[] = [];
+
+    for (const code of config.locales) {
+      const stories = storiesForLocale(processedStories, code);
+      // llm checkpoint 生成后新增了输出语言
+      if (stories.length === 0 && processedStories.length > 0) {
+        throw new Error(`LLM 阶段没有 ${code} 的结果，请先重跑 llm 阶段（npm run runs -- reset ${ctx.runDate} llm）`);
+      }
+
+      const locale = getLocale(code);
+      const overview = config.dailyOverview && stories.length > 0
+        ? await generateOverview(stories, locale)
+        : undefined;
+      if (overview) {
+        overviews.push(overview);
+      }
+
+      const exportContext: ExportContext = {
+        date: ctx.runDate,
+        locale,
+        stories,
+        history: [
+          { date: ctx.runDate, stories },
+          ...history.map(day => ({ date: day.date, stories: storiesForLocale(day.stories, code) }))
+            .filter(day => day.stories.length > 0),
+        ],
+        siteUrl: config.siteUrl,
+        permalink: config.permalink,
+        groupByCategory: config.groupByCategory,
+        categories: config.categories,
+        trending,
+        overview,
+      };
+
+      for (const file of exporters.flatMap(exporter => exporter.export(exportContext))) {
+        if (file.kind === 'post') {
+          posts.push({ locale: code, filename: file.path, markdown: file.content });
+        } else {
+          files.push(file);
+        }
+        console.log(`✓ 生成 ${file.path}`);
+      }
+    }
+
+    return {
+      date: ctx.runDate,
+      posts,
+      files,
+      overviews,
+    };
+  },
+};
+
+/**
+ * 生成「今日看点」，失败时不输出该小节
+ */
+async function generateOverview(stories: ProcessedStory[], locale: LocaleDefinition): Promise<DailyOverview | undefined> {
+  console.log(`  生成今日看点 (${locale.code})...`);
+  const result = await translator.writeDailyOverview(stories, undefined, locale);
+  if (!result) {
+    return undefined;
+  }
+  console.log(`  ✓ 今日看点: ${result.value.themes.length} 个主题`);
+  return { locale: locale.code, ...result.value, promptVersion: result.promptVersion };
+}
+
+/**
+ * 读取此前几天已完成的 llm checkpoint（按日期倒序，不含当天）
+ */
+async function loadHistory(ctx: PipelineContext): Promise<DailyStories[]> {
+  const history: DailyStories[] = [];
+  for (let i = 1; i < ctx.config.feedDays; i++) {
+    const date = addDays(ctx.runDate, -i);
+    const state = await RunState.load(ctx.config.runsDir, date);
+    if (!state.isCompleted('llm')) continue;
+
+    try {
+      history.push({ date, stories: await state.readCheckpoint('llm') });
+    } catch (error) {
+      console.warn(`  ⚠️  读取 ${date} 的 llm 结果失败: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (ctx.config.feedDays > 1) {
+    console.log(`  Feed 历史: ${history.length} 天`);
+  }
+  return history;
+}
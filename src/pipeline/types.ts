@@ -0,0 +1,164 @@
+/**
+ * Pipeline 类型定义
+ */
+
+import type { ExportedFile } from '../services/exporters';
+import type { PublishResult } from '../services/publishers';
+import type { SelectionPolicy } from '../services/selection';
+import type { UsageConfig } from '../services/usage';
+import type { ArticleMetadata, DailyOverview, LLMConfig, ProcessedStory, Story } from '../types';
+
+export type StageName = 'stories' | 'crawl' | 'comments' | 'llm' | 'render' | 'publish';
+
+// 阶段执行顺序
+export const STAGE_ORDER: StageName[] = ['stories', 'crawl', 'comments', 'llm', 'render', 'publish'];
+
+export interface RenderedPost {
+  locale: string;
+  filename: string;
+  markdown: string;
+}
+
+export interface RenderOutput {
+  // 文章日期 YYYY-MM-DD
+  date: string;
+  // 全部输出语言的文章，按 locales 顺序
+  posts: RenderedPost[];
+  // 其他导出格式的文件（feed、每日数据、邮件等），路径相对站点根目录
+  files?: ExportedFile[];
+  // 各语言的「今日看点」，关闭或生成失败时没有对应条目
+  overviews?: DailyOverview[];
+}
+
+export interface PublishOutput {
+  // 发布成功的目标
+  targets: string[];
+  // 各目标的发布结果
+  results: PublishResult[];
+}
+
+// 各阶段产出（即 checkpoint 内容）
+export interface StageOutputs {
+  stories: Story[];
+  crawl: ArticleMetadata[];
+  comments: string[];
+  llm: ProcessedStory[];
+  render: RenderOutput;
+  publish: PublishOutput;
+}
+
+export interface PipelineConfig {
+  // run 目录（checkpoint 存储位置）
+  runsDir: string;
+  // 日期边界与展示所用的 IANA 时区
+  timeZone: string;
+  storyLimit: number;
+  // 文章选择策略（得分权重、过滤规则、保留名额）
+  selection: SelectionPolicy;
+  // 文章来源，按顺序尝试（前一个出错时降级）
+  storySources: string[];
+  summaryMaxLength: number;
+  // 长文分段摘要的每段 token 数，以及单篇文章的 token 上限
+  summaryChunkTokens: number;
+  summaryMaxArticleTokens: number;
+  // 评论摘编的字数预算
+  commentBudget: number;
+  // 同时爬取的文章数
+  crawlConcurrency: number;
+  jinaApiKey?: string;
+  llm: LLMConfig;
+  // LLM 价格表和单次运行的费用预算
+  usage: UsageConfig;
+  titleBatch: boolean;
+  // 输出语言，第一个为主语言（Telegram 通知等使用）
+  locales: string[];
+  // 文章分类体系，LLM 从中选择一个
+  categories: string[];
+  // Markdown 按分类分组输出
+  groupByCategory: boolean;
+  // 在文章列表前输出 LLM 生成的「今日看点」和主题分组
+  dailyOverview: boolean;
+  // 导出格式（markdown / atom / jsonfeed / newsletter）
+  exportFormats: string[];
+  // feed 包含的天数
+  feedDays: number;
+  // 站点地址，feed 中的链接以此为基准
+  siteUrl?: string;
+  // 文章地址模板（相对 siteUrl），默认取 GitHub 目录结构预设对应的 permalink
+  permalink: string;
+  // 已发布文章的历史记录，用于跨天去重
+  history: {
+    enabled: boolean;
+    file: string;
+    // 去重回看的天数，也是历史记录的保留天数
+    days: number;
+  };
+  // 在文章末尾列出此前已发布、今天仍在榜上的文章
+  trendingSection: boolean;
+  // 本次运行的发布目标（local / github / telegram / webhook / slack / discord）
+  publishers: string[];
+  // 各发布目标失败后的重试次数
+  publisherRetries: Record<string, number>;
+  // local 发布目标的输出目录
+  outputDir?: string;
+  github?: {
+    token: string;
+    repo: string;
+    branch: string;
+    // 目录结构预设（jekyll / hugo / hexo）
+    layout: string;
+    // 覆盖预设的文章路径模板和导出文件目录
+    postPath?: string;
+    assetDir?: string;
+    // 提交到单独的分支并创建 PR，而不是直接推送
+    pullRequest: boolean;
+  };
+  telegram?: {
+    botToken?: string;
+    channelId?: string;
+    // link: 只发送文章数和链接；digest: 完整内容按长度拆分为多条消息；story: 每篇文章一条消息
+    mode: string;
+    // 置顶日报的第一条消息
+    pin: boolean;
+  };
+  webhook?: {
+    url: string;
+    // 设置后对请求体做 HMAC-SHA256 签名
+    secret?: string;
+  };
+  slack?: {
+    webhookUrl: string;
+  };
+  discord?: {
+    webhookUrl: string;
+  };
+}
+
+export interface PipelineContext {
+  // 目标日期 YYYY-MM-DD（即 run 目录的 key）
+  runDate: string;
+  // 目标日期的起止时间戳（秒）
+  start: number;
+  end: number;
+  config: PipelineConfig;
+  outputs: Partial<StageOutputs>;
+}
+
+export interface PipelineOptions {
+  // 只运行指定阶段（强制重跑，前序阶段需已完成）
+  only?: StageName;
+  // 运行到指定阶段为止（含）
+  until?: StageName;
+  // 命令行指定的文章数（stories 阶段已完成时不生效，仅用于提示）
+  limit?: number;
+}
+
+export interface Stage<N extends StageName = StageName> {
+  name: N;
+  title: string;
+  run(ctx: PipelineContext): Promise<StageOutputs[N]>;
+  // 检查该阶段所需配置，返回缺失项说明
+  validate?(config: PipelineConfig): string[];
+  // 返回非空字符串时流水线在该阶段后结束（例如没有文章）
+  haltReason?(output: StageOutputs[N]): string | undefined;
+}
@@ -0,0 +1,181 @@
+/**
+ * 历史回填脚本
+ *
+ * 为日期区间内的每一天生成并发布日报，已发布的日期会被跳过
+ *
+ * 用法: npm run backfill -- --from 2024-01-01 --to 2024-01-07 [options]
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+config({ path: join(__dirname, '../../.env') });
+
+import { parseBackfillArgs, BACKFILL_HELP_TEXT } from '../cli';
+import type { BackfillCliOptions } from '../cli';
+import { loadPipelineConfig, initCache, initPrompts, initRateLimiters, TIMEZONE } from '../config';
+import { runForDate, RunState, PipelineConfigError } from '../pipeline';
+import { isPublishedToGitHub, writeLocalFile } from '../services/publishers';
+import type { PipelineConfig } from '../pipeline';
+import { generateFilename } from '../services/markdownExporter';
+import { usage, mergeUsageReports, formatUsageReport } from '../services/usage';
+import type { UsageReport } from '../services/usage';
+import { getDateRange, parseDateString } from '../utils/date';
+import { getLimiterStats, formatLimiterStats } from '../utils/scheduler';
+
+type DateResult = 'published' | 'skipped' | 'empty' | 'failed';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 判断日期是否已发布：本地 run 已完成发布阶段，或 GitHub 上已存在各语言的文章
+ */
+async function isAlreadyPublished(date: string, config: PipelineConfig): Promise<boolean> {
+  const state = await RunState.load(config.runsDir, date);
+  if (state.isCompleted('publish')) {
+    return true;
+  }
+  if (config.publishers.includes('github') && config.github) {
+    // 所有输出语言的文章都存在才算已发布
+    const github = config.github;
+    const published = await Promise.all(config.locales.map(locale =>
+      isPublishedToGitHub(date, generateFilename(parseDateString(date), locale), github)
+    ));
+    return published.every(Boolean);
+  }
+  return false;
+}
+
+async function backfillDate(
+  date: string,
+  config: PipelineConfig,
+  options: BackfillCliOptions
+): Promise<DateResult> {
+  if (options.force) {
+    const state = await RunState.load(config.runsDir, date);
+    await state.reset();
+  } else if (!options.dryRun && await isAlreadyPublished(date, config)) {
+    console.log(`⏭️  ${date} 已发布，跳过`);
+    return 'skipped';
+  }
+
+  const { status, ctx } = await runForDate(date, config, {
+    until: options.dryRun ? 'render' : undefined,
+    limit: options.limit,
+  });
+
+  if (status === 'halted') {
+    return 'empty';
+  }
+
+  const rendered = ctx.outputs.render;
+  if (options.dryRun && options.output && rendered) {
+    for (const post of rendered.posts) {
+      const path = await writeLocalFile(options.output, post.filename, post.markdown);
+      console.log(`📄 已写入 ${path}`);
+    }
+    for (const file of rendered.files ?? []) {
+      const path = await writeLocalFile(options.output, file.path, file.content);
+      console.log(`📄 已写入 ${path}`);
+    }
+  }
+
+  const failed = ctx.outputs.publish?.results.filter(result => result.status === 'failed');
+  if (failed && failed.length > 0) {
+    console.error(`❌ ${date} 发布失败: ${failed.map(result => `${result.publisher}: ${result.error}`).join('; ')}`);
+    console.error(`   重试: npm run dev -- --date ${date} --stage publish --publishers ${failed.map(result => result.publisher).join(',')}`);
+    return 'failed';
+  }
+
+  return 'published';
+}
+
+async function main() {
+  let options: BackfillCliOptions;
+  try {
+    options = parseBackfillArgs(process.argv.slice(2), TIMEZONE);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n`);
+    console.error(BACKFILL_HELP_TEXT);
+    process.exit(1);
+  }
+  if (options.help) {
+    console.log(BACKFILL_HELP_TEXT);
+    return;
+  }
+
+  const config = loadPipelineConfig(options);
+  const dates = getDateRange(options.from, options.to);
+
+  console.log('='.repeat(60));
+  console.log('🗂️  HackerNews Daily Backfill');
+  console.log(`区间: ${options.from} ~ ${options.to} (${dates.length} 天, ${config.timeZone})`);
+  if (options.dryRun) {
+    console.log('模式: dry-run（不发布）');
+  }
+  console.log('='.repeat(60));
+
+  await initCache(options);
+  initRateLimiters();
+  await initPrompts();
+
+  const results = new Map<string, DateResult>();
+  // 各日期的 LLM 用量合计（预算按日期分别计算）
+  let totalUsage: UsageReport | null = null;
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+    console.log(`\n${'-'.repeat(60)}\n📅 [${i + 1}/${dates.length}] ${date}`);
+
+    let result: DateResult;
+    usage.init(config.usage);
+    try {
+      result = await backfillDate(date, config, options);
+    } catch (error) {
+      if (error instanceof PipelineConfigError) {
+        error.errors.forEach(message => console.error(`❌ ${message}`));
+        process.exit(1);
+      }
+      console.error(`❌ ${date} 失败:`, error instanceof Error ? error.message : error);
+      result = 'failed';
+    }
+    results.set(date, result);
+    totalUsage = totalUsage ? mergeUsageReports(totalUsage, usage.getReport()) : usage.getReport();
+
+    // 跳过的日期没有调用外部 API，无需等待
+    if (i < dates.length - 1 && result !== 'skipped' && options.throttle > 0) {
+      console.log(`⏳ 等待 ${options.throttle}s...`);
+      await sleep(options.throttle * 1000);
+    }
+  }
+
+  const count = (r: DateResult) => [...results.values()].filter(v => v === r).length;
+  const failed = [...results.entries()].filter(([, r]) => r === 'failed').map(([d]) => d);
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`✅ 回填完成: ${count('published')} 生成 | ${count('skipped')} 跳过 | ${count('empty')} 无文章 | ${failed.length} 失败`);
+  if (failed.length > 0) {
+    console.log(`   失败日期: ${failed.join(', ')}（重新运行将从失败的阶段继续）`);
+  }
+  const serviceStats = formatLimiterStats(getLimiterStats());
+  if (serviceStats.length > 0) {
+    console.log('   服务:');
+    serviceStats.forEach(line => console.log(`     ${line}`));
+  }
+  if (totalUsage && totalUsage.total.calls + totalUsage.total.cached > 0) {
+    console.log('   LLM:');
+    formatUsageReport(totalUsage).forEach(line => console.log(`     ${line}`));
+  }
+  console.log('='.repeat(60));
+
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal:', err);
+  process.exit(1);
+});
@@ -0,0 +1,218 @@
+/**
+ * 周报 / 月报
+ *
+ * 汇总最近 7 / 30 天已完成的日报（runs/<日期>/llm.json），经由导出格式和发布目标输出
+ * 运行 `npm run digest -- --help` 查看命令行参数
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+config({ path: join(__dirname, '../../.env') });
+
+import { parseDigestArgs, DIGEST_HELP_TEXT } from '../cli';
+import type { DigestCliOptions } from '../cli';
+import { loadPipelineConfig, initCache, initPrompts, initRateLimiters } from '../config';
+import {
+  buildDigest,
+  formatDigestInput,
+  getDigestStart,
+  getDigestTitle,
+  loadDailyStories,
+  DIGEST_OVERVIEW_LENGTH,
+  DIGEST_PERIODS,
+  DIGEST_TOP_STORIES,
+} from '../services/digest';
+import type { Digest } from '../services/digest';
+import { getExporter, getExporterNames } from '../services/exporters';
+import type { ExportedFile } from '../services/exporters';
+import { createTaskProvider, listTaskModels } from '../services/llm';
+import { prompts } from '../services/prompts';
+import { translator } from '../services/translator';
+import { usage, formatUsageReport, validateUsageConfig } from '../services/usage';
+import { getPublisher, runPublisher, writeLocalFile, formatPublishResults } from '../services/publishers';
+import type { PublishContext, PublishResult } from '../services/publishers';
+import { getLocale, isSupportedLocale } from '../locales';
+import type { PipelineConfig, RenderedPost } from '../pipeline';
+import { getPreviousDate } from '../utils/date';
+
+/**
+ * 检查导出格式、LLM、提示词和发布目标的配置
+ */
+function validate(config: PipelineConfig, options: DigestCliOptions): string[] {
+  const errors: string[] = [];
+
+  const unknown = config.exportFormats.filter(name => !getExporter(name));
+  if (unknown.length > 0) {
+    errors.push(`未知的导出格式: ${unknown.join(', ')}（可选: ${getExporterNames().join(', ')}）`);
+  }
+
+  try {
+    createTaskProvider(config.llm);
+    errors.push(...validateUsageConfig(config.usage, listTaskModels(config.llm)));
+  } catch (error) {
+    errors.push(`LLM 配置错误: ${error instanceof Error ? error.message : error}`);
+  }
+
+  for (const code of config.locales) {
+    if (!isSupportedLocale(code)) {
+      errors.push(`未知的输出语言: ${code}`);
+    } else if (prompts.missing(code, ['digest']).length > 0) {
+      errors.push(`缺少提示词模板 ${code}/digest.md`);
+    }
+  }
+
+  if (!options.dryRun) {
+    for (const name of config.publishers) {
+      errors.push(...(getPublisher(name)?.validate(config) ?? [`未知发布目标: ${name}`]));
+    }
+  }
+  return errors;
+}
+
+async function main() {
+  let options: DigestCliOptions;
+  try {
+    options = parseDigestArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n`);
+    console.error(DIGEST_HELP_TEXT);
+    process.exit(1);
+  }
+  if (options.help) {
+    console.log(DIGEST_HELP_TEXT);
+    return;
+  }
+
+  const config = loadPipelineConfig(options);
+  const to = options.date || getPreviousDate(config.timeZone);
+  const from = getDigestStart(options.period, to);
+
+  console.log('='.repeat(60));
+  console.log(`🗞️  HackerNews ${options.period === 'weekly' ? '周报' : '月报'}`);
+  console.log(`日期范围: ${from} ~ ${to}`);
+  if (options.dryRun) {
+    console.log('模式: dry-run（不发布）');
+  }
+  console.log('='.repeat(60));
+
+  await initCache(options);
+  initRateLimiters();
+  await initPrompts();
+
+  const errors = validate(config, options);
+  if (errors.length > 0) {
+    errors.forEach(message => console.error(`❌ ${message}`));
+    process.exit(1);
+  }
+
+  const { days, missing } = await loadDailyStories(config.runsDir, from, to);
+  if (days.length === 0) {
+    console.error(`❌ ${from} ~ ${to} 没有已完成的日报数据（${config.runsDir}/<日期>/llm.json）`);
+    process.exit(1);
+  }
+  console.log(`\n📂 读取 ${days.length}/${DIGEST_PERIODS[options.period]} 天的日报`);
+  if (missing.length > 0) {
+    console.warn(`  ⚠️  缺少 ${missing.length} 天: ${missing.join(', ')}`);
+  }
+
+  translator.init({ llm: config.llm });
+  usage.init(config.usage);
+
+  const exporters = config.exportFormats.map(name => getExporter(name)!);
+  const skipped = exporters.filter(exporter => !exporter.exportDigest).map(exporter => exporter.name);
+  if (skipped.length > 0) {
+    console.log(`  ${skipped.join(', ')} 不支持周报 / 月报，跳过`);
+  }
+
+  const digests: Digest[] = [];
+  const posts: RenderedPost[] = [];
+  const files: ExportedFile[] = [];
+  for (const code of config.locales) {
+    const locale = getLocale(code);
+    const digest = buildDigest(options.period, from, to, days, code, options.limit ?? DIGEST_TOP_STORIES);
+    if (digest.topStories.length === 0) {
+      console.warn(`  ⚠️  没有 ${code} 的文章，跳过`);
+      continue;
+    }
+
+    console.log(`\n🤖 生成编者按 (${code})...`);
+    const overview = await translator.writeDigestOverview(
+      formatDigestInput(digest),
+      DIGEST_PERIODS[options.period],
+      DIGEST_OVERVIEW_LENGTH,
+      locale
+    );
+    digest.overview = overview?.value ?? null;
+    digests.push(digest);
+
+    for (const exporter of exporters) {
+      for (const file of exporter.exportDigest?.({ digest, locale, siteUrl: config.siteUrl, permalink: config.permalink }) ?? []) {
+        if (file.kind === 'post') {
+          posts.push({ locale: code, filename: file.path, markdown: file.content });
+        } else {
+          files.push(file);
+        }
+        console.log(`✓ 生成 ${file.path}`);
+      }
+    }
+  }
+
+  if (posts.length === 0) {
+    console.error('❌ 没有可输出的内容');
+    process.exit(1);
+  }
+
+  const usageLines = formatUsageReport(usage.getReport());
+  console.log('\n💰 LLM 用量:');
+  usageLines.forEach(line => console.log(`   ${line}`));
+
+  if (options.dryRun) {
+    for (const file of [...posts.map(post => ({ path: post.filename, content: post.markdown })), ...files]) {
+      if (options.output) {
+        console.log(`📄 已写入 ${await writeLocalFile(options.output, file.path, file.content)}`);
+      } else {
+        console.log(`\n📄 ${file.path}\n`);
+        console.log(file.content);
+      }
+    }
+    return;
+  }
+
+  const publishContext: PublishContext = {
+    kind: options.period,
+    date: to,
+    title: getDigestTitle(digests[0], getLocale(posts[0].locale)),
+    posts,
+    files,
+    stories: digests[0].topStories,
+    config,
+  };
+
+  console.log('\n🚀 发布...');
+  const results: PublishResult[] = [];
+  for (const name of config.publishers) {
+    console.log(`  发布到 ${name}...`);
+    const result = await runPublisher(getPublisher(name)!, publishContext, config.publisherRetries[name] ?? 0);
+    if (result.status === 'success') {
+      console.log(`  ✓ ${name} 发布成功`);
+    }
+    results.push(result);
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(results.length === 0 ? '✅ 完成（未选择发布目标）' : '✅ 完成');
+  formatPublishResults(results).forEach(line => console.log(`   ${line}`));
+  console.log('='.repeat(60));
+
+  const failed = results.filter(result => result.status === 'failed').map(result => result.publisher);
+  if (failed.length > 0) {
+    console.error(`\n❌ 发布失败: ${failed.join(', ')}（重试: npm run digest -- --period ${options.period} --date ${to} --publishers ${failed.join(',')}）`);
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error('❌ 执行失败:', err);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Run 状态管理脚本
+ *
+ * 用法:
+ *   npm run runs -- list                  列出所有 run
+ *   npm run runs -- show <date>           查看指定日期的阶段状态和 LLM 用量
+ *   npm run runs -- reset <date> [stage]  重置 run（指定阶段时只重置该阶段及之后）
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+config({ path: join(__dirname, '../../.env') });
+
+import { RUNS_DIR } from '../config';
+import { RunState, STAGE_ORDER } from '../pipeline';
+import type { StageName } from '../pipeline';
+import { formatUsageReport } from '../services/usage';
+
+const STATUS_ICONS: Record<string, string> = {
+  completed: '✅',
+  failed: '❌',
+  pending: '⏳',
+};
+
+function isStageName(value: string): value is StageName {
+  return (STAGE_ORDER as string[]).includes(value);
+}
+
+async function show(date: string): Promise<void> {
+  const state = await RunState.load(RUNS_DIR, date);
+  const stages = state.getStages();
+
+  console.log(`📂 ${state.dir}`);
+  for (const stage of STAGE_ORDER) {
+    const record = stages[stage];
+    const status = record?.status || 'pending';
+    const detail = record ? ` (${record.updatedAt})` : '';
+    console.log(`  ${STATUS_ICONS[status]} ${stage.padEnd(10)}${detail}`);
+    if (record?.error) {
+      console.log(`     ${record.error}`);
+    }
+  }
+
+  const usage = await state.readUsage();
+  if (usage) {
+    console.log('\nLLM 用量:');
+    formatUsageReport(usage).forEach(line => console.log(`  ${line}`));
+  }
+
+  const next = state.firstIncomplete();
+  console.log(next ? `\n下次运行将从 "${next}" 开始` : '\n所有阶段均已完成');
+}
+
+async function main() {
+  const [command, date, stage] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list': {
+      const dates = await RunState.list(RUNS_DIR);
+      if (dates.length === 0) {
+        console.log('暂无 run 记录');
+      }
+      for (const d of dates) {
+        const state = await RunState.load(RUNS_DIR, d);
+        const next = state.firstIncomplete();
+        console.log(`${d}  ${next ? `⏳ 待继续: ${next}` : '✅ 已完成'}`);
+      }
+      break;
+    }
+
+    case 'show':
+      if (!date) throw new Error('缺少日期参数');
+      await show(date);
+      break;
+
+    case 'reset': {
+      if (!date) throw new Error('缺少日期参数');
+      if (stage && !isStageName(stage)) {
+        throw new Error(`未知阶段 "${stage}"，可选: ${STAGE_ORDER.join(', ')}`);
+      }
+      const state = await RunState.load(RUNS_DIR, date);
+      await state.reset(stage as StageName | undefined);
+      console.log(`🗑️  已重置 ${date}${stage ? ` 从 "${stage}" 开始的阶段` : ''}`);
+      break;
+    }
+
+    default:
+      console.log('用法: npm run runs -- <list|show|reset> [date] [stage]');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().catch(err => {
+  console.error('❌', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
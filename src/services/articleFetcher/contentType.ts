@@ -0,0 +1,77 @@
+/**
+ * 内容类型识别
+ */
+
+import type { ContentType, Story } from '../../types';
+
+const HN_PREFIXES: Array<[RegExp, ContentType]> = [
+  [/^ask hn\b/i, 'ask'],
+  [/^show hn\b/i, 'show'],
+  [/^launch hn\b/i, 'launch'],
+  [/^tell hn\b/i, 'tell'],
+];
+
+const VIDEO_HOSTS = ['youtube.com', 'youtu.be', 'vimeo.com'];
+
+// github.com 下不是仓库的一级路径
+const GITHUB_RESERVED = new Set(['orgs', 'users', 'settings', 'marketplace', 'topics', 'collections', 'sponsors', 'features', 'about', 'enterprise', 'pricing', 'blog']);
+
+/**
+ * 解析 GitHub 仓库链接，返回 owner/repo
+ */
+export function parseGitHubRepo(url: string): { owner: string; repo: string } | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== 'github.com' && parsed.hostname !== 'www.github.com') {
+      return null;
+    }
+    const [owner, repo, section] = parsed.pathname.split('/').filter(Boolean);
+    if (!owner || !repo || GITHUB_RESERVED.has(owner)) {
+      return null;
+    }
+    // 只处理仓库首页和 tree/blob 浏览页，issue/PR 等按普通网页处理
+    if (section && section !== 'tree' && section !== 'blob') {
+      return null;
+    }
+    return { owner, repo: repo.replace(/\.git$/, '') };
+  } catch {
+    return null;
+  }
+}
+
+export function isPdfUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return /\.pdf$/i.test(parsed.pathname) || (parsed.hostname.endsWith('arxiv.org') && parsed.pathname.startsWith('/pdf/'));
+  } catch {
+    return false;
+  }
+}
+
+export function isVideoUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^(www|m)\./, '');
+    return VIDEO_HOSTS.some(h => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 根据标题前缀和链接识别内容类型
+ */
+export function detectContentType(story: Pick<Story, 'title' | 'url'>): ContentType {
+  for (const [pattern, type] of HN_PREFIXES) {
+    if (pattern.test(story.title)) {
+      return type;
+    }
+  }
+
+  if (story.url) {
+    if (isPdfUrl(story.url)) return 'pdf';
+    if (parseGitHubRepo(story.url)) return 'github';
+    if (isVideoUrl(story.url)) return 'video';
+  }
+
+  return 'article';
+}
@@ -0,0 +1,71 @@
+/**
+ * GitHub 仓库内容获取 - 仓库简介 + README
+ */
+
+import { get, getText } from '../../utils/fetch';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_TIMEOUT = 15000;
+// README 最多保留的字数
+const MAX_README_LENGTH = 20000;
+
+interface GitHubRepo {
+  full_name: string;
+  description: string | null;
+  homepage: string | null;
+  language: string | null;
+  stargazers_count: number;
+  topics?: string[];
+}
+
+/**
+ * 获取仓库简介和 README，token 可选（用于提高限额）
+ */
+export async function fetchGitHubRepo(
+  owner: string,
+  repo: string,
+  token?: string
+): Promise<{ content: string | null; description: string | null }> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github+json',
+    'User-Agent': 'HackerNewsDaily',
+  };
+  if (token) {
+    headers['Authorization'] = `token ${token}`;
+  }
+
+  try {
+    const { data: info } = await get<GitHubRepo>(
+      `${GITHUB_API_URL}/repos/${owner}/${repo}`,
+      { headers, timeout: GITHUB_TIMEOUT }
+    );
+
+    let readme = '';
+    try {
+      const response = await getText(`${GITHUB_API_URL}/repos/${owner}/${repo}/readme`, {
+        headers: { ...headers, 'Accept': 'application/vnd.github.raw' },
+        timeout: GITHUB_TIMEOUT,
+      });
+      readme = response.data.substring(0, MAX_README_LENGTH);
+    } catch {
+      // 没有 README 时只使用仓库简介
+    }
+
+    const meta = [
+      `Repository: ${info.full_name}`,
+      info.description && `Description: ${info.description}`,
+      info.language && `Language: ${info.language}`,
+      `Stars: ${info.stargazers_count}`,
+      info.topics?.length ? `Topics: ${info.topics.join(', ')}` : null,
+      info.homepage && `Homepage: ${info.homepage}`,
+    ].filter(Boolean).join('\n');
+
+    const content = readme ? `${meta}\n\nREADME:\n\n${readme}` : meta;
+
+    console.log(`  ✅ GitHub 仓库 ${info.full_name} (${content.length} chars)`);
+    return { content, description: info.description };
+  } catch (error) {
+    console.warn(`  ⚠️  GitHub API 获取失败: ${error instanceof Error ? error.message : error}`);
+    return { content: null, description: null };
+  }
+}
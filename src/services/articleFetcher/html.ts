@@ -0,0 +1,208 @@
+/**
+ * 本地 HTML 正文提取
+ *
+ * Jina 失败或未配置时直接抓取网页，按段落文本密度提取正文（readability 风格）
+ */
+
+import { request, readBytes, FetchError } from '../../utils/fetch';
+import { decodeHtmlEntities, htmlToText } from '../../utils/html';
+
+const LOCAL_TIMEOUT = 15000;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; HackerNewsDaily/5.0; +https://github.com/KrabsWong/HackerNews-Daily)';
+
+// 正文段落的最小长度
+const MIN_PARAGRAPH_LENGTH = 40;
+// 链接文字占比超过该值的段落视为导航
+const MAX_LINK_DENSITY = 0.5;
+// 提取结果少于该长度时视为失败
+const MIN_CONTENT_LENGTH = 200;
+
+// 整块移除的非正文元素
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button', 'template'];
+
+export interface ExtractedPage {
+  title: string | null;
+  description: string | null;
+  content: string | null;
+}
+
+/**
+ * 从 Content-Type 或 <meta> 中识别字符集
+ */
+function detectCharset(contentType: string | null, head: string): string {
+  const fromHeader = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (fromHeader) return fromHeader.toLowerCase();
+
+  const fromMeta = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  if (fromMeta) return fromMeta.toLowerCase();
+
+  return 'utf-8';
+}
+
+function decodeBody(buffer: Uint8Array, contentType: string | null): string {
+  // 先按 latin1 读取头部，用于查找 <meta charset>
+  const head = new TextDecoder('latin1').decode(buffer.subarray(0, 4096));
+  const charset = detectCharset(contentType, head);
+
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+/**
+ * 读取 <meta name|property="key" content="..."> 的值
+ */
+function getMeta(html: string, key: string): string | null {
+  const pattern = new RegExp(
+    `<meta[^>]+(?:name|property)=["']${key}["'][^>]*>`,
+    'i'
+  );
+  const tag = html.match(pattern)?.[0];
+  const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+  return content ? decodeHtmlEntities(content).trim() || null : null;
+}
+
+function stripBoilerplate(html: string): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of BOILERPLATE_TAGS) {
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+  return result;
+}
+
+/**
+ * 选取正文所在区域：优先 <article>，其次 <main>，最后 <body>
+ */
+function selectMainRegion(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const matches = html.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi')) || [];
+    // 页面中有多个 <article> 时取文本最多的那个
+    const best = matches
+      .map(region => ({ region, length: htmlToText(region).length }))
+      .sort((a, b) => b.length - a.length)[0];
+    if (best && best.length >= MIN_CONTENT_LENGTH) {
+      return best.region;
+    }
+  }
+  return html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+}
+
+function linkDensity(blockHtml: string, textLength: number): number {
+  if (textLength === 0) return 1;
+  const linkText = (blockHtml.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || [])
+    .map(a => htmlToText(a).length)
+    .reduce((sum, n) => sum + n, 0);
+  return linkText / textLength;
+}
+
+/**
+ * 按段落提取正文，过滤过短和以链接为主的段落
+ */
+function extractParagraphs(region: string): string {
+  const blocks = region.match(/<(p|h[1-6]|li|pre|blockquote)\b[^>]*>[\s\S]*?<\/\1>/gi) || [];
+  const paragraphs: string[] = [];
+
+  for (const block of blocks) {
+    const isHeading = /^<h[1-6]/i.test(block);
+    const text = htmlToText(block).replace(/\s+/g, ' ').trim();
+
+    if (!text) continue;
+    if (!isHeading && text.length < MIN_PARAGRAPH_LENGTH) continue;
+    if (linkDensity(block, text.length) > MAX_LINK_DENSITY) continue;
+
+    paragraphs.push(isHeading ? `## ${text}` : text);
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * 从 HTML 中提取标题、描述和正文
+ */
+export function extractFromHtml(html: string): ExtractedPage {
+  const title = getMeta(html, 'og:title')
+    || decodeHtmlEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() || '')
+    || null;
+
+  const description = getMeta(html, 'og:description')
+    || getMeta(html, 'description')
+    || getMeta(html, 'twitter:description');
+
+  const region = selectMainRegion(stripBoilerplate(html));
+  let content = extractParagraphs(region);
+  if (content.length < MIN_CONTENT_LENGTH) {
+    content = htmlToText(region);
+  }
+
+  return {
+    title,
+    description,
+    content: content.length >= MIN_CONTENT_LENGTH ? content : null,
+  };
+}
+
+/**
+ * 直接抓取网页并提取正文
+ */
+export async function fetchWithLocalExtractor(
+  url: string
+): Promise<{ content: string | null; description: string | null }> {
+  try {
+    const response = await request(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+      },
+    }, { timeout: LOCAL_TIMEOUT, retry: { retries: 1 } });
+
+    const contentType = response.headers.get('content-type');
+    if (contentType && !/html|xml/i.test(contentType)) {
+      await response.body?.cancel().catch(() => undefined);
+      console.warn(`  ⚠️  本地提取跳过: 不支持的类型 ${contentType}`);
+      return { content: null, description: null };
+    }
+
+    const length = Number(response.headers.get('content-length') || 0);
+    if (length > MAX_BODY_BYTES) {
+      await response.body?.cancel().catch(() => undefined);
+      console.warn(`  ⚠️  本地提取跳过: 页面过大 (${length} bytes)`);
+      return { content: null, description: null };
+    }
+
+    // Content-Length 可能缺失或不准确，读取时同样限制大小
+    const body = await readBytes(response, MAX_BODY_BYTES);
+    if (!body) {
+      console.warn(`  ⚠️  本地提取跳过: 页面超过 ${MAX_BODY_BYTES} bytes`);
+      return { content: null, description: null };
+    }
+
+    const html = decodeBody(body, contentType);
+    const page = extractFromHtml(html);
+
+    if (!page.content && !page.description) {
+      console.warn(`  ⚠️  本地提取未找到正文`);
+      return { content: null, description: null };
+    }
+
+    const firstParagraph = page.content?.split('\n\n').find(p => !p.startsWith('## '));
+    const description = page.description
+      || (firstParagraph && firstParagraph.length > 200
+        ? firstParagraph.substring(0, 197) + '...'
+        : firstParagraph)
+      || null;
+
+    console.log(`  ✅ 本地提取成功 (${page.content?.length ?? 0} chars)`);
+    return { content: page.content, description };
+  } catch (error) {
+    if (error instanceof FetchError && error.status) {
+      console.warn(`  ⚠️  本地提取 HTTP error: ${error.status}`);
+    } else {
+      console.warn(`  ⚠️  本地提取失败: ${error instanceof Error ? error.message : error}`);
+    }
+    return { content: null, description: null };
+  }
+}
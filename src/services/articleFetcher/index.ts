@@ -1,5 +1,234 @@
 /**
- * Article Fetcher - Jina.ai Reader
+ * Article Fetcher - 按内容类型分发
+ *
+ * - Ask/Show/Launch/Tell HN: 使用 HN 帖子正文（有链接时附加链接内容）
+ * - PDF: Jina，失败时本地提取文本
+ * - GitHub 仓库: 仓库简介 + README
+ * - 视频: 页面标题和简介
+ * - 其他网页: Jina，失败时本地 HTML 提取
  */
 
-export { fetchWithJinaAPI, fetchArticlesWithJina } from './jina';
\ No newline at end of file
+import { fetchWithJinaAPI } from './jina';
+import { fetchWithLocalExtractor } from './html';
+import { fetchPdfText } from './pdf';
+import { fetchGitHubRepo } from './github';
+import { fetchVideoMetadata } from './video';
+import { detectContentType, parseGitHubRepo } from './contentType';
+import { cache } from '../cache';
+import { getLimiter, mapConcurrent } from '../../utils/scheduler';
+import type { ArticleFetcherName, ArticleMetadata, ContentType, Story } from '../../types';
+
+export { fetchWithJinaAPI } from './jina';
+export { fetchWithLocalExtractor, extractFromHtml } from './html';
+export { fetchPdfText, extractPdfText } from './pdf';
+export { fetchGitHubRepo } from './github';
+export { fetchVideoMetadata } from './video';
+export { detectContentType, parseGitHubRepo, isPdfUrl, isVideoUrl } from './contentType';
+
+export interface FetchArticlesOptions {
+  // 未配置时只使用本地提取
+  jinaApiKey?: string;
+  // 用于 GitHub API 限额
+  githubToken?: string;
+  // 同时处理的文章数（各服务的请求另受其限流器约束）
+  concurrency?: number;
+}
+
+interface FetchResult {
+  content: string | null;
+  description: string | null;
+  fetcher: ArticleFetcherName | null;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+
+export function getStoryUrl(story: Story): string {
+  return story.url || `https://news.ycombinator.com/item?id=${story.id}`;
+}
+
+function withJina(url: string, apiKey: string) {
+  return getLimiter('jina').schedule(() => fetchWithJinaAPI(url, apiKey));
+}
+
+/**
+ * 普通网页：优先 Jina，失败时退回本地提取
+ */
+async function fetchWebPage(url: string, jinaApiKey?: string): Promise<FetchResult> {
+  if (jinaApiKey) {
+    const result = await withJina(url, jinaApiKey);
+    if (result.content) {
+      return { ...result, fetcher: 'jina' };
+    }
+    console.log(`  ↪️  改用本地提取: ${url}`);
+  }
+
+  const local = await getLimiter('web').schedule(() => fetchWithLocalExtractor(url));
+  return { ...local, fetcher: local.content || local.description ? 'local' : null };
+}
+
+/**
+ * PDF：Jina 支持 PDF，失败时本地提取文本
+ */
+async function fetchPdf(url: string, jinaApiKey?: string): Promise<FetchResult> {
+  if (jinaApiKey) {
+    const result = await withJina(url, jinaApiKey);
+    if (result.content) {
+      return { ...result, fetcher: 'jina' };
+    }
+    console.log(`  ↪️  改用本地 PDF 提取: ${url}`);
+  }
+
+  const local = await getLimiter('web').schedule(() => fetchPdfText(url));
+  return { ...local, fetcher: local.content ? 'pdf' : null };
+}
+
+/**
+ * HN 帖子：正文来自 HN 数据，有外部链接时附加链接内容
+ */
+async function fetchSelfPost(story: Story, options: FetchArticlesOptions): Promise<FetchResult> {
+  const text = story.text?.trim() || null;
+
+  if (!story.url) {
+    if (text) {
+      console.log(`  ✅ HN 帖子正文 (${text.length} chars)`);
+    }
+    return { content: text, description: text && truncate(text), fetcher: text ? 'hn' : null };
+  }
+
+  const linked = await fetchByUrl(story.url, detectContentType({ title: '', url: story.url }), options);
+  if (!text) {
+    return linked;
+  }
+
+  return {
+    content: linked.content ? `${text}\n\n---\n\n${linked.content}` : text,
+    description: linked.description || truncate(text),
+    fetcher: linked.fetcher ?? 'hn',
+  };
+}
+
+async function fetchByUrl(
+  url: string,
+  contentType: ContentType,
+  options: FetchArticlesOptions
+): Promise<FetchResult> {
+  switch (contentType) {
+    case 'pdf':
+      return fetchPdf(url, options.jinaApiKey);
+
+    case 'github': {
+      const repo = parseGitHubRepo(url);
+      if (repo) {
+        const result = await getLimiter('github').schedule(() =>
+          fetchGitHubRepo(repo.owner, repo.repo, options.githubToken)
+        );
+        if (result.content) {
+          return { ...result, fetcher: 'github' };
+        }
+      }
+      return fetchWebPage(url, options.jinaApiKey);
+    }
+
+    case 'video': {
+      const result = await getLimiter('web').schedule(() => fetchVideoMetadata(url));
+      if (result.content) {
+        return { ...result, fetcher: 'video' };
+      }
+      return fetchWebPage(url, options.jinaApiKey);
+    }
+
+    default:
+      return fetchWebPage(url, options.jinaApiKey);
+  }
+}
+
+function truncate(text: string): string {
+  const firstParagraph = text.split('\n\n')[0].trim();
+  return firstParagraph.length > 200 ? firstParagraph.substring(0, 197) + '...' : firstParagraph;
+}
+
+async function fetchArticle(story: Story, contentType: ContentType, options: FetchArticlesOptions): Promise<FetchResult> {
+  // 没有外部链接的帖子（包括标题没有 Ask/Show 等前缀的）正文都来自 HN
+  if (!story.url) {
+    return fetchSelfPost(story, options);
+  }
+
+  switch (contentType) {
+    case 'ask':
+    case 'show':
+    case 'launch':
+    case 'tell':
+      return fetchSelfPost(story, options);
+    default:
+      return fetchByUrl(story.url, contentType, options);
+  }
+}
+
+/**
+ * 批量爬取文章（并发处理，结果保持输入顺序）
+ */
+export async function fetchArticles(
+  stories: Story[],
+  options: FetchArticlesOptions = {}
+): Promise<ArticleMetadata[]> {
+  const { jinaApiKey, concurrency = DEFAULT_CONCURRENCY } = options;
+
+  console.log(`\n📦 爬取 ${stories.length} 篇文章 via ${jinaApiKey ? 'Jina.ai（失败时本地提取）' : '本地提取'}...`);
+  console.log(`   并发: ${concurrency}\n`);
+
+  const results = await mapConcurrent(stories, concurrency, async (story, i): Promise<ArticleMetadata> => {
+    const url = getStoryUrl(story);
+    const contentType = detectContentType(story);
+    const progress = `[${i + 1}/${stories.length}]`;
+
+    console.log(`${progress} (${contentType}) ${url.substring(0, 70)}...`);
+
+    // HN 帖子正文会随编辑变化，只缓存有外部链接的文章
+    const cacheable = !!story.url;
+    const cached = cacheable ? await cache.get<ArticleMetadata>('article', url) : null;
+    if (cached) {
+      console.log(`  💾 ${progress} 命中缓存`);
+      return cached;
+    }
+
+    const result = await fetchArticle(story, contentType, options);
+    const metadata: ArticleMetadata = {
+      url,
+      description: result.description,
+      fullContent: result.content,
+      fetcher: result.fetcher,
+      contentType,
+    };
+
+    // 只缓存成功结果，失败的 URL 下次重新爬取
+    if (cacheable && metadata.fullContent) {
+      await cache.set('article', url, metadata);
+    }
+
+    return metadata;
+  });
+
+  const stats = countByFetcher(results);
+  console.log(`\n✅ 爬取完成: ${formatFetcherStats(stats)}\n`);
+
+  return results;
+}
+
+/**
+ * 按爬取方式统计结果数量（null 表示失败）
+ */
+export function countByFetcher(results: ArticleMetadata[]): Map<ArticleFetcherName | null, number> {
+  const stats = new Map<ArticleFetcherName | null, number>();
+  for (const result of results) {
+    const key = result.fetcher ?? null;
+    stats.set(key, (stats.get(key) || 0) + 1);
+  }
+  return stats;
+}
+
+export function formatFetcherStats(stats: Map<ArticleFetcherName | null, number>): string {
+  return [...stats.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+    .map(([fetcher, count]) => `${fetcher ?? '失败'}: ${count}`)
+    .join(' | ');
+}
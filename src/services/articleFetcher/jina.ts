@@ -2,7 +2,7 @@
  * Jina AI Reader 爬虫服务
  */
 
-import type { ArticleMetadata } from '../../types';
+import { getText, FetchError } from '../../utils/fetch';
 
 const JINA_BASE_URL = 'https://r.jina.ai';
 const JINA_TIMEOUT = 30000;
@@ -15,27 +15,17 @@ export async function fetchWithJinaAPI(
   apiKey: string
 ): Promise<{ content: string | null; description: string | null }> {
   const jinaUrl = `${JINA_BASE_URL}/${url}`;
-  
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), JINA_TIMEOUT);
 
   try {
-    const response = await fetch(jinaUrl, {
-      signal: controller.signal,
+    const response = await getText(jinaUrl, {
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Accept': 'text/plain',
       },
+      timeout: JINA_TIMEOUT,
     });
-    
-    clearTimeout(timeoutId);
 
-    if (!response.ok) {
-      console.warn(`  ⚠️  Jina HTTP error: ${response.status}`);
-      return { content: null, description: null };
-    }
-
-    const content = await response.text();
+    const content = response.data;
     
     if (!content || content.trim().length === 0) {
       console.warn(`  ⚠️  Empty response from Jina`);
@@ -67,8 +57,9 @@ export async function fetchWithJinaAPI(
     console.log(`  ✅ Jina success (${trimmedContent.length} chars)`);
     return { content: trimmedContent, description };
   } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
+    if (error instanceof FetchError && error.status) {
+      console.warn(`  ⚠️  Jina HTTP error: ${error.status} (${error.attempts} attempts)`);
+    } else if (error instanceof FetchError && error.timedOut) {
       console.warn(`  ⏱️  Timeout from Jina`);
     } else {
       console.warn(`  ⚠️  Jina error: ${error}`);
@@ -76,48 +67,3 @@ export async function fetchWithJinaAPI(
     return { content: null, description: null };
   }
 }
-
-/**
- * 批量爬取 URL（串行处理，遵守 RPM 限制）
- */
-export async function fetchArticlesWithJina(
-  urls: string[],
-  apiKey: string,
-  requestsPerMinute: number = 100
-): Promise<ArticleMetadata[]> {
-  console.log(`\n📦 爬取 ${urls.length} 篇文章 via Jina.ai...`);
-  console.log(`   速率限制: ${requestsPerMinute} RPM\n`);
-
-  const results: ArticleMetadata[] = [];
-  const delayMs = 60000 / requestsPerMinute;
-
-  for (let i = 0; i < urls.length; i++) {
-    const url = urls[i];
-    const progress = `[${i + 1}/${urls.length}]`;
-    
-    console.log(`${progress} ${url.substring(0, 70)}...`);
-    
-    const result = await fetchWithJinaAPI(url, apiKey);
-    
-    results.push({
-      url,
-      description: result.description,
-      fullContent: result.content,
-    });
-
-    if (i < urls.length - 1) {
-      await sleep(delayMs);
-    }
-  }
-
-  const successCount = results.filter(r => r.fullContent).length;
-  const failCount = results.length - successCount;
-  
-  console.log(`\n✅ 爬取完成: ${successCount} 成功 | ${failCount} 失败\n`);
-
-  return results;
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
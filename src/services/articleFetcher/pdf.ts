@@ -0,0 +1,158 @@
+/**
+ * PDF 文本提取
+ *
+ * 轻量实现：解压 FlateDecode 内容流，读取 Tj/TJ 文本操作符。
+ * 使用 CID 字体的 PDF 无法还原文本，此时返回 null。
+ */
+
+import { inflateSync } from 'zlib';
+import { request, readBytes } from '../../utils/fetch';
+
+const PDF_TIMEOUT = 30000;
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+const MIN_TEXT_LENGTH = 200;
+// 可读字符占比低于该值视为提取失败
+const MIN_PRINTABLE_RATIO = 0.85;
+
+/**
+ * 解析 PDF 字面量字符串 ( ... ) 中的转义
+ */
+function decodeLiteral(raw: string): string {
+  return raw.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, esc: string) => {
+    switch (esc[0]) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': return '(';
+      case ')': return ')';
+      case '\\': return '\\';
+      case '\r':
+      case '\n': return '';
+      default: return String.fromCharCode(parseInt(esc, 8));
+    }
+  });
+}
+
+/**
+ * 从单个内容流中提取文本
+ */
+function extractTextFromContentStream(stream: string): string {
+  const lines: string[] = [];
+
+  for (const block of stream.match(/BT[\s\S]*?ET/g) || []) {
+    let line = '';
+    // 依次匹配: 字符串 Tj / ' / "、TJ 数组、换行操作符
+    const ops = block.matchAll(/\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|\[((?:\\.|[^\]])*)\]\s*TJ|(T\*|Td|TD)/g);
+    for (const op of ops) {
+      if (op[1] !== undefined) {
+        line += decodeLiteral(op[1]);
+      } else if (op[2] !== undefined) {
+        for (const part of op[2].matchAll(/\(((?:\\.|[^\\)])*)\)|(-?\d+(?:\.\d+)?)/g)) {
+          if (part[1] !== undefined) {
+            line += decodeLiteral(part[1]);
+          } else if (Number(part[2]) < -200) {
+            // 较大的字距调整通常表示单词间隔
+            line += ' ';
+          }
+        }
+      } else if (line.trim()) {
+        lines.push(line);
+        line = '';
+      }
+    }
+    if (line.trim()) {
+      lines.push(line);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 从 PDF 二进制中提取文本
+ */
+export function extractPdfText(buffer: Buffer): string | null {
+  const raw = buffer.toString('latin1');
+  const chunks: string[] = [];
+
+  for (const match of raw.matchAll(/<<((?:(?!>>\s*stream)[\s\S])*?)>>\s*stream\r?\n/g)) {
+    const dict = match[1];
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) continue;
+
+    // 跳过图片、字体等非内容流
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1/.test(dict)) continue;
+
+    let data = buffer.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    }
+
+    const text = extractTextFromContentStream(data.toString('latin1'));
+    if (text) {
+      chunks.push(text);
+    }
+  }
+
+  const text = chunks.join('\n\n').replace(/[ \t]+/g, ' ').trim();
+  if (text.length < MIN_TEXT_LENGTH) {
+    return null;
+  }
+
+  const printable = text.match(/[\x20-\x7e\n\u00a0-\u024f]/g)?.length ?? 0;
+  return printable / text.length >= MIN_PRINTABLE_RATIO ? text : null;
+}
+
+/**
+ * 下载 PDF 并提取文本
+ */
+export async function fetchPdfText(
+  url: string
+): Promise<{ content: string | null; description: string | null }> {
+  try {
+    const response = await request(url, {
+      method: 'GET',
+      headers: { 'Accept': 'application/pdf' },
+    }, { timeout: PDF_TIMEOUT, retry: { retries: 1 } });
+
+    const length = Number(response.headers.get('content-length') || 0);
+    if (length > MAX_PDF_BYTES) {
+      await response.body?.cancel().catch(() => undefined);
+      console.warn(`  ⚠️  PDF 过大 (${length} bytes)`);
+      return { content: null, description: null };
+    }
+
+    // Content-Length 可能缺失或不准确，读取时同样限制大小
+    const data = await readBytes(response, MAX_PDF_BYTES);
+    if (!data) {
+      console.warn(`  ⚠️  PDF 过大 (超过 ${MAX_PDF_BYTES} bytes)`);
+      return { content: null, description: null };
+    }
+
+    const content = extractPdfText(data);
+    if (!content) {
+      console.warn(`  ⚠️  PDF 文本提取失败`);
+      return { content: null, description: null };
+    }
+
+    const firstParagraph = content.split(/\n\s*\n/).find(p => p.trim().length > 40)?.trim() || null;
+    const description = firstParagraph && firstParagraph.length > 200
+      ? firstParagraph.substring(0, 197) + '...'
+      : firstParagraph;
+
+    console.log(`  ✅ PDF 提取成功 (${content.length} chars)`);
+    return { content, description };
+  } catch (error) {
+    console.warn(`  ⚠️  PDF 下载失败: ${error instanceof Error ? error.message : error}`);
+    return { content: null, description: null };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * 视频链接 - 获取标题和简介
+ */
+
+import { request, readBody } from '../../utils/fetch';
+import { extractFromHtml } from './html';
+
+const VIDEO_TIMEOUT = 15000;
+
+/**
+ * 从视频页面的 <meta> / OpenGraph 中读取标题和简介
+ */
+export async function fetchVideoMetadata(
+  url: string
+): Promise<{ content: string | null; description: string | null }> {
+  try {
+    const response = await request(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'text/html',
+        'Accept-Language': 'en-US,en;q=0.8',
+      },
+    }, { timeout: VIDEO_TIMEOUT, retry: { retries: 1 } });
+
+    const page = extractFromHtml(await readBody(response, r => r.text()));
+    if (!page.description) {
+      console.warn(`  ⚠️  未找到视频简介`);
+      return { content: null, description: null };
+    }
+
+    const content = [page.title && `Video: ${page.title}`, `Description: ${page.description}`]
+      .filter(Boolean)
+      .join('\n\n');
+
+    console.log(`  ✅ 视频简介 (${content.length} chars)`);
+    return { content, description: page.description };
+  } catch (error) {
+    console.warn(`  ⚠️  视频信息获取失败: ${error instanceof Error ? error.message : error}`);
+    return { content: null, description: null };
+  }
+}
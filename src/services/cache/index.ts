@@ -0,0 +1,170 @@
+/**
+ * 文件缓存服务
+ *
+ * 按命名空间存储 JSON 结果，支持 TTL 和总大小上限（超出时淘汰最旧条目）
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile, readdir, stat, unlink, rm } from 'fs/promises';
+import { join } from 'path';
+
+export interface CacheConfig {
+  dir: string;
+  // 默认过期时间（毫秒）
+  ttlMs: number;
+  // 缓存目录总大小上限（字节）
+  maxBytes: number;
+  enabled?: boolean;
+}
+
+interface CacheEntry<T> {
+  createdAt: number;
+  expiresAt: number;
+  value: T;
+}
+
+/**
+ * 计算缓存键（SHA-256）
+ */
+export function hashKey(...parts: string[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+export class FileCache {
+  private config: CacheConfig | null = null;
+  private hits = 0;
+  private misses = 0;
+  // 缓存目录的总大小（字节），首次写入时统计，之后随写入累加；可能因过期删除而偏大
+  private totalBytes: number | null = null;
+  private measuring: Promise<number> | null = null;
+
+  init(config: CacheConfig): void {
+    this.config = config;
+    this.totalBytes = null;
+    this.measuring = null;
+  }
+
+  isEnabled(): boolean {
+    return !!this.config && this.config.enabled !== false;
+  }
+
+  getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private entryPath(namespace: string, key: string): string {
+    return join(this.config!.dir, namespace, `${hashKey(key)}.json`);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    if (!this.isEnabled()) return null;
+
+    const path = this.entryPath(namespace, key);
+    try {
+      const entry = JSON.parse(await readFile(path, 'utf-8')) as CacheEntry<T>;
+      if (entry.expiresAt < Date.now()) {
+        await unlink(path).catch(() => undefined);
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return entry.value;
+    } catch {
+      this.misses++;
+      return null;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const config = this.config!;
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      createdAt: now,
+      expiresAt: now + (ttlMs ?? config.ttlMs),
+      value,
+    };
+
+    try {
+      const path = this.entryPath(namespace, key);
+      const data = JSON.stringify(entry);
+      if (this.totalBytes === null) {
+        // 并发写入共用同一次统计
+        this.measuring ??= this.measure();
+        this.totalBytes = await this.measuring;
+      }
+      // 覆盖已有条目时先扣除旧文件的大小
+      const previous = await stat(path).then(info => info.size, () => 0);
+
+      await mkdir(join(config.dir, namespace), { recursive: true });
+      await writeFile(path, data, 'utf-8');
+      this.totalBytes += Buffer.byteLength(data) - previous;
+      if (this.totalBytes > config.maxBytes) {
+        await this.enforceSizeLimit();
+      }
+    } catch (error) {
+      // 缓存写入失败不影响主流程
+      console.warn(`  ⚠️  缓存写入失败: ${error}`);
+    }
+  }
+
+  /**
+   * 清空缓存目录
+   */
+  async purge(): Promise<void> {
+    if (!this.config) return;
+    await rm(this.config.dir, { recursive: true, force: true });
+    this.totalBytes = 0;
+  }
+
+  private async listFiles(): Promise<Array<{ path: string; size: number; mtime: number }>> {
+    const config = this.config!;
+    const files: Array<{ path: string; size: number; mtime: number }> = [];
+
+    const namespaces = await readdir(config.dir).catch(() => [] as string[]);
+    for (const namespace of namespaces) {
+      const nsDir = join(config.dir, namespace);
+      const names = await readdir(nsDir).catch(() => [] as string[]);
+      for (const name of names) {
+        const path = join(nsDir, name);
+        const info = await stat(path).catch(() => null);
+        if (info?.isFile()) {
+          files.push({ path, size: info.size, mtime: info.mtimeMs });
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private async measure(): Promise<number> {
+    return (await this.listFiles()).reduce((sum, f) => sum + f.size, 0);
+  }
+
+  /**
+   * 总大小超出上限时重新统计，并从最旧的条目开始淘汰
+   */
+  private async enforceSizeLimit(): Promise<void> {
+    const config = this.config!;
+    const files = await this.listFiles();
+
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total > config.maxBytes) {
+      files.sort((a, b) => a.mtime - b.mtime);
+      for (const file of files) {
+        if (total <= config.maxBytes) break;
+        await unlink(file.path).catch(() => undefined);
+        total -= file.size;
+      }
+    }
+    this.totalBytes = total;
+  }
+}
+
+export const cache = new FileCache();
@@ -0,0 +1,105 @@
+/**
+ * 评论摘编服务
+ *
+ * 对评论树打分排序，在字数预算内按讨论串（顶层评论 + 最佳回复）组织评论
+ */
+
+import { fetchCommentTree, fetchCommentsFromAlgolia } from '../api';
+import type { CommentNode, Story } from '../types';
+
+const DEFAULT_BUDGET = 3000;
+// 单条评论最多保留的字数
+const MAX_COMMENT_LENGTH = 600;
+const MIN_USEFUL_LENGTH = 40;
+
+/**
+ * 评论得分：回复越多、篇幅适中、层级越浅得分越高
+ */
+export function scoreComment(node: CommentNode): number {
+  const replies = Math.log2(1 + node.replyCount) * 2;
+  const length = node.text.length < MIN_USEFUL_LENGTH
+    ? 0
+    : Math.min(Math.log2(node.text.length / MIN_USEFUL_LENGTH), 3);
+  return replies + length - node.depth * 0.5;
+}
+
+/**
+ * 按得分降序排列（不修改原数组）
+ */
+export function rankComments(nodes: CommentNode[]): CommentNode[] {
+  return nodes
+    .filter(node => node.text.length > 0)
+    .map(node => ({ node, score: scoreComment(node) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ node }) => node);
+}
+
+function clip(text: string): string {
+  const flat = text.replace(/\s*\n\s*/g, ' ');
+  return flat.length > MAX_COMMENT_LENGTH
+    ? flat.substring(0, MAX_COMMENT_LENGTH - 3) + '...'
+    : flat;
+}
+
+/**
+ * 生成评论摘编
+ *
+ * 格式：
+ *   [1] author（12 条回复）: 评论内容
+ *     ↳ replier: 最佳回复
+ */
+export function buildCommentDigest(nodes: CommentNode[], budget: number = DEFAULT_BUDGET): string {
+  const threads: string[] = [];
+  let used = 0;
+
+  for (const top of rankComments(nodes)) {
+    let thread = `[${threads.length + 1}] ${top.author}（${top.replyCount} 条回复）: ${clip(top.text)}`;
+
+    const bestReply = rankComments(top.children)[0];
+    if (bestReply) {
+      const reply = `\n  ↳ ${bestReply.author}: ${clip(bestReply.text)}`;
+      if (used + thread.length + reply.length <= budget) {
+        thread += reply;
+      }
+    }
+
+    if (used + thread.length > budget) {
+      if (threads.length === 0) {
+        threads.push(thread.substring(0, budget));
+      }
+      break;
+    }
+
+    threads.push(thread);
+    used += thread.length + 2;
+  }
+
+  return threads.join('\n\n');
+}
+
+/**
+ * 获取单篇文章的评论摘编，评论树获取失败时退回到搜索接口
+ */
+export async function fetchCommentDigest(
+  storyId: number,
+  budget: number = DEFAULT_BUDGET
+): Promise<string> {
+  try {
+    const tree = await fetchCommentTree(storyId);
+    return buildCommentDigest(tree, budget);
+  } catch (error) {
+    console.warn(`  ⚠️  评论树获取失败 (${storyId})，改用搜索接口: ${error instanceof Error ? error.message : error}`);
+    const comments = await fetchCommentsFromAlgolia(storyId, 3);
+    return comments.substring(0, budget);
+  }
+}
+
+/**
+ * 批量获取评论摘编
+ */
+export async function fetchCommentDigests(
+  stories: Story[],
+  budget: number = DEFAULT_BUDGET
+): Promise<string[]> {
+  return Promise.all(stories.map(s => fetchCommentDigest(s.id, budget)));
+}
@@ -0,0 +1,199 @@
+/**
+ * 周报 / 月报
+ *
+ * 汇总最近 7 / 30 天 runs/<日期>/llm.json 中的文章：热门文章、反复出现的主题、讨论最多的帖子，
+ * 以及 LLM 撰写的编者按
+ */
+
+import { RunState } from '../../pipeline/runState';
+import { storiesForLocale } from '../../pipeline/context';
+import { addDays } from '../../utils/date';
+import type { DailyStories } from '../exporters/types';
+import type { LocaleDefinition } from '../../locales';
+import type { ProcessedStory } from '../../types';
+
+export type DigestPeriod = 'weekly' | 'monthly';
+
+// 各周期包含的天数
+export const DIGEST_PERIODS: Record<DigestPeriod, number> = {
+  weekly: 7,
+  monthly: 30,
+};
+
+// 默认的热门文章数
+export const DIGEST_TOP_STORIES = 10;
+// 讨论最多的帖子数和主题数
+const MOST_DISCUSSED_LIMIT = 5;
+const THEME_LIMIT = 8;
+// 每个主题下列出的文章数
+const THEME_STORY_LIMIT = 3;
+// 编者按字数
+export const DIGEST_OVERVIEW_LENGTH = 500;
+
+export interface DigestTheme {
+  // 首次出现时的写法
+  name: string;
+  // 出现的天数
+  days: number;
+  // 按得分排序
+  stories: ProcessedStory[];
+}
+
+export interface Digest {
+  period: DigestPeriod;
+  // 起止日期（含）YYYY-MM-DD
+  from: string;
+  to: string;
+  // 有数据的天数
+  days: number;
+  topStories: ProcessedStory[];
+  themes: DigestTheme[];
+  mostDiscussed: ProcessedStory[];
+  // 编者按，生成失败时为 null
+  overview: string | null;
+}
+
+export function isDigestPeriod(value: string): value is DigestPeriod {
+  return value in DIGEST_PERIODS;
+}
+
+/**
+ * 标题，例如 HackerNews 周报 - 2024-01-01 ~ 2024-01-07
+ */
+export function getDigestTitle(digest: Pick<Digest, 'period' | 'from' | 'to'>, locale: LocaleDefinition): string {
+  const { labels } = locale;
+  const name = digest.period === 'weekly' ? labels.weeklyTitle : labels.monthlyTitle;
+  return `${name} - ${digest.from} ~ ${digest.to}`;
+}
+
+/**
+ * 周期的起始日期（含结束日期在内共 N 天）
+ */
+export function getDigestStart(period: DigestPeriod, to: string): string {
+  return addDays(to, -(DIGEST_PERIODS[period] - 1));
+}
+
+/**
+ * 读取日期范围内已完成的 llm checkpoint（按日期倒序），返回数据和缺失的日期
+ */
+export async function loadDailyStories(
+  runsDir: string,
+  from: string,
+  to: string
+): Promise<{ days: DailyStories[]; missing: string[] }> {
+  const days: DailyStories[] = [];
+  const missing: string[] = [];
+  for (let date = to; date >= from; date = addDays(date, -1)) {
+    const state = await RunState.load(runsDir, date);
+    if (!state.isCompleted('llm')) {
+      missing.push(date);
+      continue;
+    }
+    days.push({ date, stories: await state.readCheckpoint('llm') });
+  }
+  return { days, missing };
+}
+
+/**
+ * 汇总指定语言的文章（编者按另行生成）
+ */
+export function buildDigest(
+  period: DigestPeriod,
+  from: string,
+  to: string,
+  days: DailyStories[],
+  locale: string,
+  limit: number = DIGEST_TOP_STORIES
+): Digest {
+  const localized = days
+    .map(day => ({ date: day.date, stories: storiesForLocale(day.stories, locale) }))
+    .filter(day => day.stories.length > 0);
+
+  // 同一篇文章出现在多天时保留得分最高的一次
+  const byId = new Map<number, ProcessedStory>();
+  for (const story of localized.flatMap(day => day.stories)) {
+    const existing = byId.get(story.storyId);
+    if (!existing || story.score > existing.score) {
+      byId.set(story.storyId, story);
+    }
+  }
+  const stories = [...byId.values()].sort((a, b) => b.score - a.score);
+
+  return {
+    period,
+    from,
+    to,
+    days: localized.length,
+    topStories: stories.slice(0, limit),
+    themes: findRecurringThemes(localized),
+    mostDiscussed: stories
+      .filter(story => (story.commentCount ?? 0) > 0)
+      .sort((a, b) => b.commentCount! - a.commentCount!)
+      .slice(0, MOST_DISCUSSED_LIMIT),
+    overview: null,
+  };
+}
+
+/**
+ * 在两天及以上出现过的标签，按出现天数和文章数排序
+ */
+function findRecurringThemes(days: DailyStories[]): DigestTheme[] {
+  const themes = new Map<string, { name: string; dates: Set<string>; stories: Map<number, ProcessedStory> }>();
+  for (const day of days) {
+    for (const story of day.stories) {
+      for (const tag of story.tags ?? []) {
+        const key = tag.toLowerCase();
+        const theme = themes.get(key) ?? { name: tag, dates: new Set(), stories: new Map() };
+        theme.dates.add(day.date);
+        theme.stories.set(story.storyId, story);
+        themes.set(key, theme);
+      }
+    }
+  }
+
+  return [...themes.values()]
+    .filter(theme => theme.dates.size >= 2)
+    .sort((a, b) => b.dates.size - a.dates.size || b.stories.size - a.stories.size)
+    .slice(0, THEME_LIMIT)
+    .map(theme => ({
+      name: theme.name,
+      days: theme.dates.size,
+      stories: [...theme.stories.values()].sort((a, b) => b.score - a.score),
+    }));
+}
+
+/**
+ * 每个主题下列出的文章
+ */
+export function getThemeHighlights(theme: DigestTheme): ProcessedStory[] {
+  return theme.stories.slice(0, THEME_STORY_LIMIT);
+}
+
+/**
+ * 编者按的输入：热门文章、主题和讨论最多的帖子
+ */
+export function formatDigestInput(digest: Digest): string {
+  const lines = ['Top stories:'];
+  digest.topStories.forEach((story, i) => {
+    lines.push(`[${i + 1}] ${story.titleChinese} | ${story.score} points | ${story.commentCount ?? 0} comments`);
+    const summary = story.tldr || story.description;
+    if (summary) {
+      lines.push(summary.replace(/\s+/g, ' ').slice(0, 300));
+    }
+  });
+
+  if (digest.themes.length > 0) {
+    lines.push('', 'Recurring themes:');
+    for (const theme of digest.themes) {
+      lines.push(`- ${theme.name} (${theme.days} days, ${theme.stories.length} stories)`);
+    }
+  }
+
+  if (digest.mostDiscussed.length > 0) {
+    lines.push('', 'Most discussed:');
+    for (const story of digest.mostDiscussed) {
+      lines.push(`- ${story.titleChinese} | ${story.commentCount} comments`);
+    }
+  }
+  return lines.join('\n');
+}
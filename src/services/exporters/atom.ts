@@ -0,0 +1,47 @@
+/**
+ * Atom feed（最近 N 天，每天一个条目）
+ */
+
+import { escapeHtml } from '../../utils/html';
+import { getPostUrl } from '../markdownExporter';
+import { parseDateString } from '../../utils/date';
+import { renderStoriesHtml } from './storyHtml';
+import { feedPath } from './paths';
+import type { Exporter } from './types';
+
+export const atomExporter: Exporter = {
+  name: 'atom',
+  needsHistory: true,
+  needsSiteUrl: true,
+
+  export(ctx) {
+    const siteUrl = (ctx.siteUrl || '').replace(/\/+$/, '');
+    const { locale } = ctx;
+    const path = feedPath('feed', locale.fileSuffix, 'xml');
+    const updated = `${ctx.history[0]?.date ?? ctx.date}T00:00:00Z`;
+
+    const entries = ctx.history.map(day => {
+      const url = getPostUrl(siteUrl, ctx.permalink, parseDateString(day.date), locale.code);
+      return `  <entry>
+    <title>${escapeHtml(`${locale.labels.siteTitle} - ${day.date}`)}</title>
+    <link href="${escapeHtml(url)}"/>
+    <id>${escapeHtml(url)}</id>
+    <updated>${day.date}T00:00:00Z</updated>
+    <content type="html">${escapeHtml(renderStoriesHtml(day.stories, locale))}</content>
+  </entry>`;
+    });
+
+    const content = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeHtml(locale.lang)}">
+  <title>${escapeHtml(locale.labels.siteTitle)}</title>
+  <link href="${escapeHtml(`${siteUrl}/${path}`)}" rel="self"/>
+  <link href="${escapeHtml(`${siteUrl}/`)}"/>
+  <id>${escapeHtml(`${siteUrl}/${path}`)}</id>
+  <updated>${updated}</updated>
+${entries.join('\n')}
+</feed>
+`;
+
+    return [{ path, content, kind: 'asset' }];
+  },
+};
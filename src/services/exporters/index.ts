@@ -0,0 +1,31 @@
+/**
+ * Exporter 注册表
+ */
+
+import { markdownExporter } from './markdown';
+import { atomExporter } from './atom';
+import { jsonFeedExporter } from './jsonFeed';
+import { newsletterExporter } from './newsletter';
+import type { Exporter } from './types';
+
+export type { DailyStories, DigestExportContext, ExportContext, ExportedFile, Exporter } from './types';
+export { DAILY_DATA_VERSION } from './jsonFeed';
+
+const registry = new Map<string, Exporter>();
+
+export function registerExporter(exporter: Exporter): void {
+  registry.set(exporter.name, exporter);
+}
+
+export function getExporterNames(): string[] {
+  return [...registry.keys()];
+}
+
+export function getExporter(name: string): Exporter | undefined {
+  return registry.get(name);
+}
+
+registerExporter(markdownExporter);
+registerExporter(atomExporter);
+registerExporter(jsonFeedExporter);
+registerExporter(newsletterExporter);
@@ -0,0 +1,65 @@
+/**
+ * JSON Feed 1.1 + 每日数据 JSON
+ *
+ * https://www.jsonfeed.org/version/1.1/
+ */
+
+import { getPostUrl } from '../markdownExporter';
+import { parseDateString } from '../../utils/date';
+import { renderStoriesHtml } from './storyHtml';
+import { feedPath } from './paths';
+import type { Exporter } from './types';
+
+// 每日数据 JSON 的格式版本
+export const DAILY_DATA_VERSION = 1;
+
+function dataPath(date: string, fileSuffix: string): string {
+  return `data/${date}${fileSuffix ? `-${fileSuffix}` : ''}.json`;
+}
+
+export const jsonFeedExporter: Exporter = {
+  name: 'jsonfeed',
+  needsHistory: true,
+  needsSiteUrl: true,
+
+  export(ctx) {
+    const siteUrl = (ctx.siteUrl || '').replace(/\/+$/, '');
+    const { locale } = ctx;
+    const path = feedPath('feed', locale.fileSuffix, 'json');
+
+    const feed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: locale.labels.siteTitle,
+      home_page_url: `${siteUrl}/`,
+      feed_url: `${siteUrl}/${path}`,
+      language: locale.lang,
+      items: ctx.history.map(day => {
+        const url = getPostUrl(siteUrl, ctx.permalink, parseDateString(day.date), locale.code);
+        return {
+          id: url,
+          url,
+          title: `${locale.labels.siteTitle} - ${day.date}`,
+          content_html: renderStoriesHtml(day.stories, locale),
+          date_published: `${day.date}T00:00:00Z`,
+          tags: [...new Set(day.stories.flatMap(story => story.tags ?? []))],
+          attachments: [{
+            url: `${siteUrl}/${dataPath(day.date, locale.fileSuffix)}`,
+            mime_type: 'application/json',
+          }],
+        };
+      }),
+    };
+
+    const daily = {
+      version: DAILY_DATA_VERSION,
+      date: ctx.date,
+      locale: locale.code,
+      stories: ctx.stories,
+    };
+
+    return [
+      { path, content: JSON.stringify(feed, null, 2) + '\n', kind: 'asset' },
+      { path: dataPath(ctx.date, locale.fileSuffix), content: JSON.stringify(daily, null, 2) + '\n', kind: 'asset' },
+    ];
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Jekyll Markdown 文章
+ */
+
+import { generateDigestFilename, generateDigestMarkdown, generateMarkdownContent, generateFilename } from '../markdownExporter';
+import { parseDateString } from '../../utils/date';
+import type { Exporter } from './types';
+
+export const markdownExporter: Exporter = {
+  name: 'markdown',
+
+  export(ctx) {
+    const date = parseDateString(ctx.date);
+    return [{
+      path: generateFilename(date, ctx.locale.code),
+      content: generateMarkdownContent(ctx.stories, date, {
+        groupByCategory: ctx.groupByCategory,
+        categories: ctx.categories,
+        locale: ctx.locale.code,
+        trending: ctx.trending,
+        overview: ctx.overview,
+      }),
+      kind: 'post',
+    }];
+  },
+
+  exportDigest({ digest, locale }) {
+    return [{
+      path: generateDigestFilename(digest.period, digest.to, locale.code),
+      content: generateDigestMarkdown(digest, locale.code),
+      kind: 'post',
+    }];
+  },
+};
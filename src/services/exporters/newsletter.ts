@@ -0,0 +1,160 @@
+/**
+ * HTML 邮件（内联样式，不依赖外部资源）
+ */
+
+import { escapeHtml, safeUrl } from '../../utils/html';
+import { generateDigestFilename, getPostUrl, getPostUrlForFile, groupStoriesByCategory } from '../markdownExporter';
+import { getDigestTitle, getThemeHighlights } from '../digest';
+import { parseDateString } from '../../utils/date';
+import { localizeCategory } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import { renderStoriesHtml, textToHtml } from './storyHtml';
+import type { StoryStyles } from './storyHtml';
+import type { Exporter } from './types';
+import type { DailyOverview, ProcessedStory } from '../../types';
+
+// 邮件客户端大多不支持 <style>，样式全部内联
+const STYLES: StoryStyles = {
+  story: 'padding:16px 0;border-bottom:1px solid #e5e5e5;',
+  title: 'margin:0 0 4px;font-size:18px;line-height:1.4;',
+  subtitle: 'margin:0 0 8px;color:#666;font-size:13px;',
+  meta: 'margin:0 0 8px;color:#888;font-size:12px;',
+  label: 'margin:12px 0 4px;font-weight:bold;font-size:14px;',
+  text: 'margin:0 0 8px;font-size:14px;line-height:1.6;color:#222;',
+  list: 'margin:0 0 8px;padding-left:20px;font-size:14px;line-height:1.6;',
+  link: 'color:#ff6600;text-decoration:none;',
+};
+
+const HEADING_STYLE = 'margin:24px 0 0;font-size:20px;color:#ff6600;';
+
+export const newsletterExporter: Exporter = {
+  name: 'newsletter',
+
+  export(ctx) {
+    const { locale } = ctx;
+    const title = `${locale.labels.siteTitle} - ${ctx.date}`;
+
+    let body: string;
+    if (ctx.groupByCategory) {
+      body = groupStoriesByCategory(ctx.stories, ctx.categories, locale.labels.uncategorized)
+        .map(group => `<h1 style="${HEADING_STYLE}">${escapeHtml(localizeCategory(locale, group.category))}</h1>\n${renderStoriesHtml(group.stories, locale, STYLES)}`)
+        .join('\n');
+    } else {
+      body = renderStoriesHtml(ctx.stories, locale, STYLES);
+    }
+    if (ctx.overview) {
+      body = `${renderOverview(ctx.overview, ctx.stories, locale)}\n${body}`;
+    }
+
+    const webLink = ctx.siteUrl ? getPostUrl(ctx.siteUrl, ctx.permalink, parseDateString(ctx.date), locale.code) : undefined;
+    return [{
+      path: `newsletter/${ctx.date}${locale.fileSuffix ? `-${locale.fileSuffix}` : ''}.html`,
+      content: renderPage(title, locale, body, ctx.siteUrl, webLink),
+      kind: 'asset',
+    }];
+  },
+
+  exportDigest({ digest, locale, siteUrl, permalink }) {
+    const title = getDigestTitle(digest, locale);
+    const { labels } = locale;
+    const heading = (text: string) => `<h1 style="${HEADING_STYLE}">${escapeHtml(text)}</h1>`;
+    const list = (stories: ProcessedStory[]) =>
+      `<ol style="${STYLES.list}">${stories.map(story => `<li style="margin:0 0 8px;">${renderDigestStory(story, locale)}</li>`).join('')}</ol>`;
+
+    const parts: string[] = [];
+    if (digest.overview) {
+      parts.push(heading(labels.overview), textToHtml(digest.overview, STYLES.text));
+    }
+    parts.push(heading(labels.topStories), list(digest.topStories));
+    if (digest.themes.length > 0) {
+      parts.push(heading(labels.recurringThemes));
+      parts.push(`<ul style="${STYLES.list}">${digest.themes.map(theme => {
+        const stats = labels.themeStats.replace('{days}', String(theme.days)).replace('{count}', String(theme.stories.length));
+        const links = getThemeHighlights(theme).map(story => storyLink(story)).join(escapeHtml(locale.listSeparator));
+        return `<li><strong>${escapeHtml(theme.name)}</strong> (${escapeHtml(stats)}): ${links}</li>`;
+      }).join('')}</ul>`);
+    }
+    if (digest.mostDiscussed.length > 0) {
+      parts.push(heading(labels.mostDiscussed), list(digest.mostDiscussed));
+    }
+
+    const filename = generateDigestFilename(digest.period, digest.to, locale.code);
+    return [{
+      path: `newsletter/${filename.replace(/\.md$/, '.html')}`,
+      content: renderPage(title, locale, parts.join('\n'), siteUrl, siteUrl ? getPostUrlForFile(siteUrl, permalink, filename) : undefined),
+      kind: 'asset',
+    }];
+  },
+};
+
+/**
+ * 「今日看点」导语和主题分组
+ */
+function renderOverview(overview: DailyOverview, stories: ProcessedStory[], locale: LocaleDefinition): string {
+  const { labels } = locale;
+  const byId = new Map(stories.map(story => [story.storyId, story]));
+  const parts = [`<h1 style="${HEADING_STYLE}">${escapeHtml(labels.todayHighlights)}</h1>`, textToHtml(overview.summary, STYLES.text)];
+
+  if (overview.themes.length > 0) {
+    parts.push(`<p style="${STYLES.label}">${escapeHtml(labels.themes)}</p>`);
+    parts.push(`<ul style="${STYLES.list}">${overview.themes.map(theme => {
+      const links = theme.storyIds
+        .map(id => byId.get(id))
+        .filter((story): story is ProcessedStory => !!story)
+        .map(storyLink)
+        .join(escapeHtml(locale.listSeparator));
+      return `<li><strong>${escapeHtml(theme.name)}</strong>: ${links}</li>`;
+    }).join('')}</ul>`);
+  }
+  return parts.join('\n');
+}
+
+function storyLink(story: ProcessedStory): string {
+  return `<a href="${escapeHtml(safeUrl(story.url))}" style="${STYLES.link}">${escapeHtml(story.titleChinese)}</a>`;
+}
+
+/**
+ * 周报 / 月报中的一行文章：标题、得分、评论数和一句话概括
+ */
+function renderDigestStory(story: ProcessedStory, locale: LocaleDefinition): string {
+  const meta = [`${story.score} points`];
+  if (story.commentCount) {
+    meta.push(escapeHtml(locale.labels.commentCount.replace('{count}', String(story.commentCount))));
+  }
+  meta.push(`<a href="https://news.ycombinator.com/item?id=${story.storyId}" style="${STYLES.link}">HN</a>`);
+
+  let html = `<strong>${storyLink(story)}</strong><br><span style="${STYLES.meta}">${meta.join(' · ')}</span>`;
+  if (story.tldr) {
+    html += `<br>${escapeHtml(story.tldr)}`;
+  }
+  return html;
+}
+
+function renderPage(title: string, locale: LocaleDefinition, body: string, siteUrl?: string, webLink?: string): string {
+  const footer = siteUrl && webLink
+    ? `<p style="margin:0;font-size:12px;"><a href="${escapeHtml(webLink)}" style="color:#888;">${escapeHtml(siteUrl)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale.lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f6f6ef;font-family:-apple-system,'Segoe UI',Helvetica,Arial,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f6ef;">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;background:#ffffff;">
+<tr><td style="padding:16px 24px;background:#ff6600;color:#ffffff;font-size:20px;font-weight:bold;">${escapeHtml(title)}</td></tr>
+<tr><td style="padding:0 24px 24px;">
+${body}
+</td></tr>
+<tr><td style="padding:16px 24px;background:#fafafa;">${footer}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+}
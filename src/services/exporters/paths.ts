@@ -0,0 +1,7 @@
+/**
+ * 导出文件路径（相对站点根目录），非默认语言带语言后缀
+ */
+
+export function feedPath(name: string, fileSuffix: string, ext: string): string {
+  return `${name}${fileSuffix ? `-${fileSuffix}` : ''}.${ext}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * 文章列表的 HTML 片段（feed 内容和邮件共用）
+ */
+
+import { escapeHtml, safeUrl } from '../../utils/html';
+import { localizeCategory } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import type { ProcessedStory } from '../../types';
+
+export type StoryStyles = Partial<Record<'story' | 'title' | 'subtitle' | 'meta' | 'label' | 'text' | 'list' | 'link', string>>;
+
+function attr(style: string | undefined): string {
+  return style ? ` style="${escapeHtml(style)}"` : '';
+}
+
+/**
+ * 纯文本转为段落，保留空行分段
+ */
+export function textToHtml(text: string, style?: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p${attr(style)}>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+export function renderStoryHtml(story: ProcessedStory, locale: LocaleDefinition, styles: StoryStyles = {}): string {
+  const { labels } = locale;
+  const hnUrl = `https://news.ycombinator.com/item?id=${story.storyId}`;
+  const parts: string[] = [];
+
+  parts.push(`<h2${attr(styles.title)}><a href="${escapeHtml(safeUrl(story.url))}"${attr(styles.link)}>${escapeHtml(story.titleChinese)}</a></h2>`);
+  if (story.titleChinese !== story.titleEnglish) {
+    parts.push(`<p${attr(styles.subtitle)}>${escapeHtml(story.titleEnglish)}</p>`);
+  }
+
+  const meta = [`${escapeHtml(labels.publishedAt)}: ${escapeHtml(story.time)}`, `${story.score} points`];
+  if (story.category) {
+    meta.push(escapeHtml(localizeCategory(locale, story.category)));
+  }
+  if (story.tags?.length) {
+    meta.push(story.tags.map(tag => `#${escapeHtml(tag)}`).join(' '));
+  }
+  parts.push(`<p${attr(styles.meta)}>${meta.join(' · ')}</p>`);
+
+  if (story.tldr) {
+    parts.push(`<p${attr(styles.text)}><strong>${escapeHtml(story.tldr)}</strong></p>`);
+  }
+
+  parts.push(`<p${attr(styles.label)}>${escapeHtml(labels.description)}</p>`);
+  parts.push(textToHtml(story.description?.trim() || labels.noDescription, styles.text));
+
+  if (story.keyPoints?.length) {
+    parts.push(`<p${attr(styles.label)}>${escapeHtml(labels.keyPoints)}</p>`);
+    parts.push(`<ul${attr(styles.list)}>${story.keyPoints.map(point => `<li>${escapeHtml(point)}</li>`).join('')}</ul>`);
+  }
+
+  if (!locale.summaryOnly) {
+    parts.push(`<p${attr(styles.label)}>${escapeHtml(labels.comments)}</p>`);
+    parts.push(textToHtml(story.commentSummary?.trim() || labels.noComments, styles.text));
+  }
+
+  parts.push(`<p${attr(styles.meta)}><a href="${escapeHtml(hnUrl)}"${attr(styles.link)}>HackerNews</a></p>`);
+
+  return `<div${attr(styles.story)}>\n${parts.join('\n')}\n</div>`;
+}
+
+export function renderStoriesHtml(stories: ProcessedStory[], locale: LocaleDefinition, styles: StoryStyles = {}): string {
+  return stories.map(story => renderStoryHtml(story, locale, styles)).join('\n');
+}
@@ -0,0 +1,56 @@
+/**
+ * Exporter 接口
+ */
+
+import type { LocaleDefinition } from '../../locales';
+import type { Digest } from '../digest';
+import type { DailyOverview, ProcessedStory, Story } from '../../types';
+
+export interface DailyStories {
+  // YYYY-MM-DD
+  date: string;
+  stories: ProcessedStory[];
+}
+
+export interface ExportContext {
+  date: string;
+  locale: LocaleDefinition;
+  stories: ProcessedStory[];
+  // 最近几天的文章（含当天，按日期倒序），供 feed 使用
+  history: DailyStories[];
+  // 站点地址，feed 中的链接以此为基准
+  siteUrl?: string;
+  // 文章地址模板（相对 siteUrl）
+  permalink: string;
+  groupByCategory?: boolean;
+  categories?: string[];
+  // 此前已发布、今天仍在榜上的文章
+  trending?: Story[];
+  // 「今日看点」导语和主题分组
+  overview?: DailyOverview;
+}
+
+export interface DigestExportContext {
+  digest: Digest;
+  locale: LocaleDefinition;
+  siteUrl?: string;
+  permalink: string;
+}
+
+export interface ExportedFile {
+  // 相对站点根目录的路径；post 为 Jekyll 文章，发布到 GitHub 时放在 _posts/ 下
+  path: string;
+  content: string;
+  kind: 'post' | 'asset';
+}
+
+export interface Exporter {
+  name: string;
+  // 是否需要最近几天的历史数据
+  needsHistory?: boolean;
+  // 是否需要 siteUrl
+  needsSiteUrl?: boolean;
+  export(ctx: ExportContext): ExportedFile[];
+  // 周报 / 月报，不支持的格式不实现
+  exportDigest?(ctx: DigestExportContext): ExportedFile[];
+}
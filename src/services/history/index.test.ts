@@ -0,0 +1,37 @@
+/**
+ * 同日重复帖子合并测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeDuplicateStories } from './index';
+import type { Story } from '../../types';
+
+function story(id: number, score: number, url?: string): Story {
+  return { id, title: `Story ${id}`, url, score, time: 1704067200, by: 'pg' };
+}
+
+test('链接相同的帖子合并到分数最高的一条，保持原有顺序', () => {
+  const stories = [
+    story(1, 50, 'https://example.com/post?utm_source=hn'),
+    story(2, 300, 'https://other.com/'),
+    story(3, 200, 'https://www.example.com/post/'),
+    story(4, 10, 'http://example.com/post#comments'),
+  ];
+
+  const merged = mergeDuplicateStories(stories);
+  assert.deepEqual(merged.map(s => s.id), [2, 3]);
+  assert.deepEqual(merged[1].mergedIds, [1, 4]);
+  assert.equal(merged[0].mergedIds, undefined);
+});
+
+test('没有链接的帖子不参与合并', () => {
+  const merged = mergeDuplicateStories([story(1, 10), story(2, 20), story(3, 5, 'ftp://example.com')]);
+  assert.deepEqual(merged.map(s => s.id), [1, 2, 3]);
+});
+
+test('不修改传入的文章', () => {
+  const stories = [story(1, 10, 'https://a.com'), story(2, 5, 'https://a.com')];
+  mergeDuplicateStories(stories);
+  assert.equal(stories[0].mergedIds, undefined);
+});
@@ -0,0 +1,121 @@
+/**
+ * 已发布文章的历史记录
+ *
+ * 记录每天发布的 HN ID 和归一化链接，用于跨天去重：
+ * 此前已发布过的文章（同一 ID，或链接相同的其他 ID）不再入选，可在「仍在热议」中列出
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { normalizeUrl } from '../../utils/url';
+import type { Story } from '../../types';
+
+export interface PublishedEntry {
+  // 发布日期 YYYY-MM-DD
+  date: string;
+  // HN ID（含合并的重复帖子）
+  ids: number[];
+  // 归一化链接，Ask HN 等站内帖子为 null
+  url: string | null;
+  title: string;
+}
+
+interface HistoryData {
+  version: number;
+  entries: PublishedEntry[];
+}
+
+const HISTORY_VERSION = 1;
+
+export class PublishedHistory {
+  private constructor(
+    readonly path: string,
+    private entries: PublishedEntry[]
+  ) {}
+
+  /**
+   * 加载历史记录（不存在则为空）
+   */
+  static async load(path: string): Promise<PublishedHistory> {
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf-8');
+    } catch {
+      return new PublishedHistory(path, []);
+    }
+    // 文件损坏时报错，避免覆盖已有记录
+    const data = JSON.parse(raw) as HistoryData;
+    return new PublishedHistory(path, data.entries ?? []);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 查找 [since, before) 期间发布过的同一文章
+   */
+  find(story: Story, since: string, before: string): PublishedEntry | undefined {
+    const url = normalizeUrl(story.url);
+    const ids = [story.id, ...(story.mergedIds ?? [])];
+    return this.entries.find(entry =>
+      entry.date >= since &&
+      entry.date < before &&
+      (ids.some(id => entry.ids.includes(id)) || (url !== null && entry.url === url))
+    );
+  }
+
+  /**
+   * 记录某天发布的文章（重复发布同一天时覆盖该天的记录）
+   */
+  record(date: string, stories: Story[]): void {
+    this.entries = [
+      ...this.entries.filter(entry => entry.date !== date),
+      ...stories.map(story => ({
+        date,
+        ids: [story.id, ...(story.mergedIds ?? [])],
+        url: normalizeUrl(story.url),
+        title: story.title,
+      })),
+    ];
+  }
+
+  /**
+   * 删除早于 since 的记录，返回删除条数
+   */
+  prune(since: string): number {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.date >= since);
+    return before - this.entries.length;
+  }
+
+  async save(): Promise<void> {
+    const data: HistoryData = { version: HISTORY_VERSION, entries: this.entries };
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * 合并同一天内链接相同的帖子，保留分数最高的一条，其余 ID 记入 mergedIds
+ */
+export function mergeDuplicateStories(stories: Story[]): Story[] {
+  const byUrl = new Map<string, Story>();
+  const merged: Story[] = [];
+
+  for (const story of [...stories].sort((a, b) => b.score - a.score)) {
+    const url = normalizeUrl(story.url);
+    const primary = url ? byUrl.get(url) : undefined;
+    if (primary) {
+      primary.mergedIds = [...(primary.mergedIds ?? []), story.id];
+      continue;
+    }
+    const copy = { ...story };
+    if (url) byUrl.set(url, copy);
+    merged.push(copy);
+  }
+
+  // 保持原有顺序
+  const order = new Map(stories.map((story, i) => [story.id, i]));
+  return merged.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+}
@@ -0,0 +1,101 @@
+/**
+ * Anthropic Messages API Provider
+ */
+
+import { post, SERVER_ERROR_RETRY_ON } from '../../utils/fetch';
+import { LLMError } from '../../types';
+import type { LLMProvider, ChatMessage, ChatCompletionResponse } from '../../types';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_TIMEOUT = 60000;
+
+interface AnthropicMessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, model: string, baseUrl: string = ANTHROPIC_BASE_URL) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getName(): string {
+    return 'anthropic';
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async chatCompletion(messages: ChatMessage[], temperature: number = 0.3): Promise<ChatCompletionResponse> {
+    const url = `${this.baseUrl}/messages`;
+
+    // Messages API 的 system 是顶层字段，不属于 messages 数组
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const body = {
+      model: this.model,
+      max_tokens: 4096,
+      temperature,
+      ...(system && { system }),
+      messages: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: m.content })),
+    };
+
+    try {
+      const response = await post<AnthropicMessagesResponse>(url, body, {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        timeout: ANTHROPIC_TIMEOUT,
+        // 超时或网络错误时请求可能已计费，只在限流和服务端错误时重试
+        retry: { retryOn: SERVER_ERROR_RETRY_ON },
+      });
+
+      const content = (response.data?.content || [])
+        .filter(block => block.type === 'text' && block.text)
+        .map(block => block.text)
+        .join('')
+        .trim();
+
+      if (!content) {
+        throw new LLMError('Empty response from Anthropic');
+      }
+
+      const usage = response.data?.usage;
+
+      return {
+        content,
+        provider: 'anthropic',
+        model: this.model,
+        usage: usage && {
+          prompt_tokens: usage.input_tokens,
+          completion_tokens: usage.output_tokens,
+          total_tokens: usage.input_tokens + usage.output_tokens,
+        },
+      };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(
+        `Anthropic API error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 主备切换 Provider
+ */
+
+import { LLMError } from '../../types';
+import type { LLMProvider, ChatMessage, ChatCompletionResponse } from '../../types';
+
+/**
+ * 主 Provider 抛出 LLMError 时自动切换到备用 Provider
+ */
+export class FailoverProvider implements LLMProvider {
+  constructor(
+    private primary: LLMProvider,
+    private secondary: LLMProvider
+  ) {}
+
+  getName(): string {
+    return this.primary.getName();
+  }
+
+  getModel(): string {
+    return this.primary.getModel();
+  }
+
+  async chatCompletion(messages: ChatMessage[], temperature?: number): Promise<ChatCompletionResponse> {
+    try {
+      return await this.primary.chatCompletion(messages, temperature);
+    } catch (error) {
+      if (!(error instanceof LLMError)) {
+        throw error;
+      }
+      console.warn(
+        `  ⚠️  ${this.primary.getName()} 调用失败，切换到 ${this.secondary.getName()}/${this.secondary.getModel()}: ${error.message}`
+      );
+      return this.secondary.chatCompletion(messages, temperature);
+    }
+  }
+}
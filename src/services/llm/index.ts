@@ -1,11 +1,172 @@
 /**
- * LLM Service - DeepSeek Only
+ * LLM Service - Provider 注册表
  */
 
 import { DeepSeekProvider } from './deepseek';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { FailoverProvider } from './failover';
+import { RateLimitedProvider } from './rateLimited';
+import { LLMError } from '../../types';
+import type { LLMProvider, LLMProviderConfig, LLMConfig, LLMTask } from '../../types';
 
 export { DeepSeekProvider } from './deepseek';
+export { OpenAICompatibleProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { FailoverProvider } from './failover';
+export { RateLimitedProvider } from './rateLimited';
+
+export type LLMProviderFactory = (config: LLMProviderConfig) => LLMProvider;
+
+const registry = new Map<string, LLMProviderFactory>();
+
+function requireApiKey(config: LLMProviderConfig): string {
+  if (!config.apiKey) {
+    throw new LLMError(`Missing API key for LLM provider "${config.provider}"`);
+  }
+  return config.apiKey;
+}
+
+/**
+ * 注册 Provider 工厂
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  registry.set(name.toLowerCase(), factory);
+}
+
+export function getRegisteredLLMProviders(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * 根据配置创建 Provider（请求经过该 Provider 的共享限流器）
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const factory = registry.get(config.provider.toLowerCase());
+  if (!factory) {
+    throw new LLMError(
+      `Unknown LLM provider "${config.provider}" (available: ${getRegisteredLLMProviders().join(', ')})`
+    );
+  }
+  return new RateLimitedProvider(factory(config));
+}
 
 export function createDeepSeekProvider(apiKey: string, model?: string): DeepSeekProvider {
   return new DeepSeekProvider(apiKey, model || 'deepseek-v4-flash');
-}
\ No newline at end of file
+}
+
+registerLLMProvider('deepseek', config =>
+  createDeepSeekProvider(requireApiKey(config), config.model)
+);
+
+registerLLMProvider('openai', config =>
+  new OpenAICompatibleProvider({
+    name: 'openai',
+    baseUrl: config.baseUrl || 'https://api.openai.com/v1',
+    apiKey: requireApiKey(config),
+    model: config.model || 'gpt-4o-mini',
+  })
+);
+
+// 本地 Ollama / vLLM 等兼容服务，API Key 可选
+registerLLMProvider('openai-compatible', config => {
+  if (!config.baseUrl) {
+    throw new LLMError('Missing base URL for LLM provider "openai-compatible"');
+  }
+  if (!config.model) {
+    throw new LLMError('Missing model for LLM provider "openai-compatible"');
+  }
+  return new OpenAICompatibleProvider({
+    name: 'openai-compatible',
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+    model: config.model,
+  });
+});
+
+registerLLMProvider('ollama', config =>
+  new OpenAICompatibleProvider({
+    name: 'ollama',
+    baseUrl: config.baseUrl || 'http://localhost:11434/v1',
+    apiKey: config.apiKey,
+    model: config.model || 'qwen2.5:7b',
+    timeout: 120000,
+  })
+);
+
+registerLLMProvider('anthropic', config =>
+  new AnthropicProvider(
+    requireApiKey(config),
+    config.model || 'claude-haiku-4-5',
+    config.baseUrl
+  )
+);
+
+/**
+ * 为指定任务创建 Provider（按任务选择模型 + 主备切换）
+ */
+export function createTaskProvider(config: LLMConfig, task?: LLMTask): LLMProvider {
+  const model = (task && config.taskModels[task]) || config.primary.model;
+  const primary = createLLMProvider({ ...config.primary, model });
+
+  if (!config.fallback) {
+    return primary;
+  }
+
+  return new FailoverProvider(primary, createLLMProvider(config.fallback));
+}
+
+/**
+ * 各任务实际使用的 Provider 和模型（含备用 Provider），配置错误时抛出 LLMError
+ */
+export function listTaskModels(config: LLMConfig): Array<{ provider: string; model: string }> {
+  const tasks: LLMTask[] = ['title', 'content', 'comment'];
+  const providers = tasks.map(task =>
+    createLLMProvider({ ...config.primary, model: config.taskModels[task] || config.primary.model })
+  );
+  if (config.fallback) {
+    providers.push(createLLMProvider(config.fallback));
+  }
+
+  const models = new Map(providers.map(p => [`${p.getName()}/${p.getModel()}`, { provider: p.getName(), model: p.getModel() }]));
+  return [...models.values()];
+}
+
+function readProviderConfig(
+  provider: string,
+  env: NodeJS.ProcessEnv,
+  model?: string
+): LLMProviderConfig {
+  const prefix = `LLM_${provider.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  return {
+    provider,
+    apiKey: env[`${prefix}_API_KEY`],
+    baseUrl: env[`${prefix}_BASE_URL`],
+    model: model || env[`${prefix}_MODEL`],
+  };
+}
+
+/**
+ * 从环境变量读取 LLM 配置
+ *
+ * - LLM_PROVIDER / LLM_MODEL: 主 Provider 与默认模型（默认 deepseek）
+ * - LLM_<PROVIDER>_API_KEY / LLM_<PROVIDER>_BASE_URL / LLM_<PROVIDER>_MODEL
+ * - LLM_TITLE_MODEL / LLM_CONTENT_MODEL / LLM_COMMENT_MODEL: 按任务覆盖模型
+ * - LLM_FALLBACK_PROVIDER / LLM_FALLBACK_MODEL: 备用 Provider
+ */
+export function loadLLMConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const primary = readProviderConfig(env.LLM_PROVIDER || 'deepseek', env, env.LLM_MODEL);
+  const fallbackName = env.LLM_FALLBACK_PROVIDER;
+
+  return {
+    primary,
+    fallback: fallbackName
+      ? readProviderConfig(fallbackName, env, env.LLM_FALLBACK_MODEL)
+      : undefined,
+    taskModels: {
+      title: env.LLM_TITLE_MODEL,
+      content: env.LLM_CONTENT_MODEL,
+      comment: env.LLM_COMMENT_MODEL,
+    },
+  };
+}
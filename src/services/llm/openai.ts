@@ -0,0 +1,94 @@
+/**
+ * OpenAI 兼容 Chat Completions Provider
+ *
+ * 适用于 OpenAI 以及 Ollama / vLLM 等提供 /chat/completions 接口的服务
+ */
+
+import { post, SERVER_ERROR_RETRY_ON } from '../../utils/fetch';
+import { LLMError } from '../../types';
+import type { LLMProvider, ChatMessage, ChatCompletionResponse } from '../../types';
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeout?: number;
+  maxTokens?: number;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  private name: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private timeout: number;
+  private maxTokens: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.timeout = options.timeout || DEFAULT_TIMEOUT;
+    this.maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async chatCompletion(messages: ChatMessage[], temperature: number = 0.3): Promise<ChatCompletionResponse> {
+    const url = `${this.baseUrl}/chat/completions`;
+
+    const body = {
+      model: this.model,
+      messages,
+      temperature,
+      max_tokens: this.maxTokens,
+    };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      const response = await post<any>(url, body, {
+        headers,
+        timeout: this.timeout,
+        // 超时或网络错误时请求可能已计费，只在限流和服务端错误时重试
+        retry: { retryOn: SERVER_ERROR_RETRY_ON },
+      });
+
+      const content = response.data?.choices?.[0]?.message?.content?.trim();
+
+      if (!content) {
+        throw new LLMError(`Empty response from ${this.name}`);
+      }
+
+      return {
+        content,
+        provider: this.name,
+        model: this.model,
+        usage: response.data?.usage,
+      };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(
+        `${this.name} API error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * 限流 Provider
+ */
+
+import { getLimiter } from '../../utils/scheduler';
+import { estimateTokens } from '../../utils/tokens';
+import type { LLMProvider, ChatMessage, ChatCompletionResponse } from '../../types';
+
+/**
+ * 通过以 Provider 名称命名的共享 RateLimiter 发送请求
+ */
+export class RateLimitedProvider implements LLMProvider {
+  constructor(private inner: LLMProvider) {}
+
+  getName(): string {
+    return this.inner.getName();
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  async chatCompletion(messages: ChatMessage[], temperature?: number): Promise<ChatCompletionResponse> {
+    // TPM 按输入估算，输出长度事先未知
+    const tokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    return getLimiter(this.inner.getName()).schedule(
+      () => this.inner.chatCompletion(messages, temperature),
+      tokens
+    );
+  }
+}
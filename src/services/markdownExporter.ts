@@ -3,46 +3,300 @@
  */
 
 import { formatDateForDisplay } from '../utils/date';
-import type { ProcessedStory } from '../types';
+import { getLocale, localizeCategory } from '../locales';
+import type { LocaleDefinition } from '../locales';
+import { getDigestTitle, getThemeHighlights } from './digest';
+import type { Digest, DigestPeriod } from './digest';
+import type { DailyOverview, ProcessedStory, Story } from '../types';
 
-const DEFAULT_DESCRIPTION = '暂无描述';
-const DEFAULT_COMMENT_SUMMARY = '暂无评论';
+// 标题、标签等来自外部的文本中会被行内 Markdown / HTML 解析的字符；
+// _ 只在词边界处构成强调，单词内的（如 snake_case）原样保留
+const MARKDOWN_INLINE = /[\\`*[\]<]|(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu;
 
-function generateJekyllFrontMatter(date: Date): string {
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(MARKDOWN_INLINE, char => `\\${char}`)
+    // 位于行首时会变成标题、引用或列表
+    .replace(/^([#>+-])/, '\\$1')
+    .replace(/^(\d+)([.)])/, '$1\\$2');
+}
+
+/**
+ * Front matter 中的字符串值使用双引号（JSON 字符串同时是合法的 YAML 字符串），避免 : # 等字符破坏 YAML
+ */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * 链接地址中的空白和括号会截断 Markdown 链接
+ */
+function escapeMarkdownUrl(url: string): string {
+  return url.replace(/[\s()<>]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function generateJekyllFrontMatter(date: Date, locale: LocaleDefinition): string {
   const dateStr = formatDateForDisplay(date);
   return `---
 layout: post
-title: HackerNews Daily - ${dateStr}
+title: ${yamlString(`${locale.labels.siteTitle} - ${dateStr}`)}
 date: ${dateStr}
+lang: ${locale.lang}
 ---
 
 `;
 }
 
-export function generateMarkdownContent(stories: ProcessedStory[], date: Date): string {
-  let content = generateJekyllFrontMatter(date);
-  
+export interface MarkdownOptions {
+  // 按分类分组，分组顺序与 categories 一致
+  groupByCategory?: boolean;
+  categories?: string[];
+  // 输出语言（默认 zh-CN）
+  locale?: string;
+  // 此前已发布、今天仍在榜上的文章，只列出链接
+  trending?: Story[];
+  // 在文章列表前输出的「今日看点」和主题分组
+  overview?: DailyOverview;
+}
+
+function generateStoryMarkdown(story: ProcessedStory, locale: LocaleDefinition, showCategory: boolean): string {
+  const { labels } = locale;
+
+  let content = `## ${escapeMarkdown(story.titleChinese)}\n\n`;
+  if (story.titleChinese !== story.titleEnglish) {
+    content += `${escapeMarkdown(story.titleEnglish)}\n\n`;
+  }
+  if (story.tldr) {
+    content += `> ${story.tldr}\n\n`;
+  }
+  content += `**${labels.publishedAt}**: ${story.time}\n\n`;
+  content += `**${labels.link}**: [${escapeMarkdown(story.url)}](${escapeMarkdownUrl(story.url)})\n\n`;
+  if (showCategory && story.category) {
+    content += `**${labels.category}**: ${localizeCategory(locale, story.category)}\n\n`;
+  }
+  if (story.tags?.length) {
+    content += `**${labels.tags}**: ${story.tags.map(tag => `\`${tag.replace(/`/g, '')}\``).join(' ')}\n\n`;
+  }
+
+  const desc = story.description?.trim() || labels.noDescription;
+  content += `**${labels.description}**:\n\n${desc}\n\n`;
+
+  if (story.keyPoints?.length) {
+    content += `**${labels.keyPoints}**:\n\n${story.keyPoints.map(point => `- ${point}`).join('\n')}\n\n`;
+  }
+
+  if (!locale.summaryOnly) {
+    const comments = story.commentSummary?.trim() || labels.noComments;
+    content += `**${labels.comments}**:\n\n${comments}\n\n`;
+  }
+
+  content += `*[HackerNews](https://news.ycombinator.com/item?id=${story.storyId})*\n\n`;
+  content += `---\n\n`;
+  return content;
+}
+
+/**
+ * 按分类分组，保持各组内的原有排名顺序
+ */
+export function groupStoriesByCategory(
+  stories: ProcessedStory[],
+  categories: string[] = [],
+  uncategorized: string = getLocale().labels.uncategorized
+): Array<{ category: string; stories: ProcessedStory[] }> {
+  const groups = new Map<string, ProcessedStory[]>();
+  for (const category of categories) {
+    groups.set(category, []);
+  }
   for (const story of stories) {
-    content += `## ${story.titleChinese}\n\n`;
-    content += `${story.titleEnglish}\n\n`;
-    content += `**发布时间**: ${story.time}\n\n`;
-    content += `**链接**: [${story.url}](${story.url})\n\n`;
-    
-    const desc = story.description?.trim() || DEFAULT_DESCRIPTION;
-    content += `**描述**:\n\n${desc}\n\n`;
-    
-    const comments = story.commentSummary?.trim() || DEFAULT_COMMENT_SUMMARY;
-    content += `**评论要点**:\n\n${comments}\n\n`;
-    
-    content += `*[HackerNews](https://news.ycombinator.com/item?id=${story.storyId})*\n\n`;
-    content += `---\n\n`;
-  }
-  
+    const category = story.category || uncategorized;
+    groups.set(category, [...(groups.get(category) || []), story]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 0)
+    .map(([category, group]) => ({ category, stories: group }));
+}
+
+function generateTrendingMarkdown(stories: Story[], locale: LocaleDefinition, heading: string): string {
+  const { labels } = locale;
+  const items = stories.map(story => {
+    const url = story.url || `https://news.ycombinator.com/item?id=${story.id}`;
+    return `- [${escapeMarkdown(story.title)}](${escapeMarkdownUrl(url)}) · ${labels.firstPublished} ${story.previouslyPublished}`;
+  });
+  return `${heading} ${labels.trending}\n\n${items.join('\n')}\n`;
+}
+
+function generateOverviewMarkdown(
+  overview: DailyOverview,
+  stories: ProcessedStory[],
+  locale: LocaleDefinition,
+  heading: string
+): string {
+  const { labels } = locale;
+  const byId = new Map(stories.map(story => [story.storyId, story]));
+  let content = `${heading} ${labels.todayHighlights}\n\n${overview.summary}\n\n`;
+
+  if (overview.themes.length > 0) {
+    content += `**${labels.themes}**:\n\n`;
+    for (const theme of overview.themes) {
+      const links = theme.storyIds
+        .map(id => byId.get(id))
+        .filter((story): story is ProcessedStory => !!story)
+        .map(story => `[${escapeMarkdown(story.titleChinese)}](${escapeMarkdownUrl(story.url)})`);
+      content += `- **${escapeMarkdown(theme.name)}**: ${links.join(locale.listSeparator)}\n`;
+    }
+    content += '\n';
+  }
+  return `${content}---\n\n`;
+}
+
+export function generateMarkdownContent(
+  stories: ProcessedStory[],
+  date: Date,
+  options: MarkdownOptions = {}
+): string {
+  const locale = getLocale(options.locale);
+  let content = generateJekyllFrontMatter(date, locale);
+
+  if (options.overview) {
+    // 与文章（或分类）标题同级
+    content += generateOverviewMarkdown(options.overview, stories, locale, options.groupByCategory ? '#' : '##');
+  }
+
+  if (!options.groupByCategory) {
+    for (const story of stories) {
+      content += generateStoryMarkdown(story, locale, true);
+    }
+  } else {
+    for (const group of groupStoriesByCategory(stories, options.categories, locale.labels.uncategorized)) {
+      content += `# ${localizeCategory(locale, group.category)}\n\n`;
+      for (const story of group.stories) {
+        content += generateStoryMarkdown(story, locale, false);
+      }
+    }
+  }
+
+  if (options.trending?.length) {
+    // 与文章（或分类）标题同级
+    content += generateTrendingMarkdown(options.trending, locale, options.groupByCategory ? '#' : '##');
+  }
+
   return content;
 }
 
-export function generateFilename(date: Date): string {
-  return `${formatDateForDisplay(date)}-daily.md`;
+function generateDigestStoryLine(story: ProcessedStory, locale: LocaleDefinition, index: number): string {
+  const { labels } = locale;
+  const meta = [`${story.score} points`];
+  if (story.commentCount) {
+    meta.push(labels.commentCount.replace('{count}', String(story.commentCount)));
+  }
+  meta.push(`[HN](https://news.ycombinator.com/item?id=${story.storyId})`);
+  return `${index}. **[${escapeMarkdown(story.titleChinese)}](${escapeMarkdownUrl(story.url)})** · ${meta.join(' · ')}`;
+}
+
+/**
+ * 周报 / 月报：编者按、热门文章、反复出现的主题、讨论最多的帖子
+ */
+export function generateDigestMarkdown(digest: Digest, localeCode?: string): string {
+  const locale = getLocale(localeCode);
+  const { labels } = locale;
+  const link = (story: ProcessedStory) => `[${escapeMarkdown(story.titleChinese)}](${escapeMarkdownUrl(story.url)})`;
+
+  let content = `---
+layout: post
+title: ${yamlString(getDigestTitle(digest, locale))}
+date: ${digest.to}
+lang: ${locale.lang}
+digest: ${digest.period}
+from: ${digest.from}
+to: ${digest.to}
+---
+
+`;
+
+  if (digest.overview) {
+    content += `## ${labels.overview}\n\n${digest.overview}\n\n`;
+  }
+
+  content += `## ${labels.topStories}\n\n`;
+  digest.topStories.forEach((story, i) => {
+    content += `${generateDigestStoryLine(story, locale, i + 1)}\n`;
+    if (story.tldr) {
+      content += `   > ${story.tldr}\n`;
+    }
+  });
+  content += '\n';
+
+  if (digest.themes.length > 0) {
+    content += `## ${labels.recurringThemes}\n\n`;
+    for (const theme of digest.themes) {
+      const stats = labels.themeStats.replace('{days}', String(theme.days)).replace('{count}', String(theme.stories.length));
+      content += `- **${escapeMarkdown(theme.name)}** (${stats}): ${getThemeHighlights(theme).map(link).join(locale.listSeparator)}\n`;
+    }
+    content += '\n';
+  }
+
+  if (digest.mostDiscussed.length > 0) {
+    content += `## ${labels.mostDiscussed}\n\n`;
+    digest.mostDiscussed.forEach((story, i) => {
+      content += `${generateDigestStoryLine(story, locale, i + 1)}\n`;
+    });
+    content += '\n';
+  }
+
+  return content;
+}
+
+/**
+ * 文件名，默认语言不带后缀，例如 2024-01-01-daily.md、2024-01-01-daily-ja.md
+ */
+export function generateFilename(date: Date, locale?: string): string {
+  const { fileSuffix } = getLocale(locale);
+  return `${formatDateForDisplay(date)}-daily${fileSuffix ? `-${fileSuffix}` : ''}.md`;
+}
+
+/**
+ * 周报 / 月报文件名，日期为周期的最后一天，例如 2024-01-07-weekly.md、2024-01-31-monthly-ja.md
+ */
+export function generateDigestFilename(period: DigestPeriod, to: string, locale?: string): string {
+  const { fileSuffix } = getLocale(locale);
+  return `${to}-${period}${fileSuffix ? `-${fileSuffix}` : ''}.md`;
+}
+
+// 文章路径和 permalink 模板中可用的变量
+export const PATH_TEMPLATE_VARIABLES = ['year', 'month', 'day', 'date', 'filename', 'slug', 'name'];
+
+/**
+ * 展开路径模板：{filename} 为文件名，{name} 为去掉 .md 的文件名，{slug} 再去掉日期前缀
+ */
+export function expandPathTemplate(template: string, date: string, filename: string): string {
+  const [year, month, day] = date.split('-');
+  const name = filename.replace(/\.md$/, '');
+  const variables: Record<string, string> = {
+    year,
+    month,
+    day,
+    date,
+    filename,
+    name,
+    slug: name.replace(/^\d{4}-\d{2}-\d{2}-/, ''),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => variables[key] ?? match);
+}
+
+/**
+ * 日报在站点上的地址，permalink 为相对站点地址的模板
+ */
+export function getPostUrl(siteUrl: string, permalink: string, date: Date, locale?: string): string {
+  return getPostUrlForFile(siteUrl, permalink, generateFilename(date, locale));
+}
+
+/**
+ * 文件名（YYYY-MM-DD-slug.md）对应的文章地址
+ */
+export function getPostUrlForFile(siteUrl: string, permalink: string, filename: string): string {
+  const path = expandPathTemplate(permalink, filename.slice(0, 10), filename);
+  return `${siteUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
 }
 
 export { formatDateForDisplay };
\ No newline at end of file
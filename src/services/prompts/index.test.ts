@@ -0,0 +1,44 @@
+/**
+ * 提示词模板解析测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interpolate, parsePromptTemplate } from './index';
+import { PromptError } from '../../types';
+
+test('解析 front matter、正文和变量', () => {
+  const template = parsePromptTemplate('zh-CN', 'comment', '---\nversion: 3\ndescription: 评论摘要\n---\n用 {{language}} 总结，不超过 {{ maxLength }} 字。\n\n');
+
+  assert.deepEqual(template, {
+    locale: 'zh-CN',
+    name: 'comment',
+    version: '3',
+    body: '用 {{language}} 总结，不超过 {{ maxLength }} 字。',
+    variables: ['language', 'maxLength'],
+  });
+});
+
+test('兼容 CRLF 换行', () => {
+  const template = parsePromptTemplate('en', 'title', '---\r\nversion: 1\r\n---\r\nTranslate the title.\r\n');
+  assert.equal(template.version, '1');
+  assert.equal(template.body, 'Translate the title.');
+});
+
+test('缺少 front matter 或 version 时抛出 PromptError', () => {
+  assert.throws(() => parsePromptTemplate('zh-CN', 'title', '翻译标题'), PromptError);
+  assert.throws(() => parsePromptTemplate('zh-CN', 'title', '---\ndescription: x\n---\n翻译标题'), /missing version/);
+});
+
+test('使用模板不支持的变量时抛出 PromptError', () => {
+  assert.throws(
+    () => parsePromptTemplate('zh-CN', 'title', '---\nversion: 1\n---\n不超过 {{maxLength}} 字'),
+    /unknown variable \{\{maxLength\}\}/
+  );
+});
+
+test('interpolate 插入变量，缺少变量时抛出错误', () => {
+  const template = parsePromptTemplate('zh-CN', 'chunk', '---\nversion: 1\n---\n第 {{index}}/{{total}} 段，{{maxLength}} 字');
+  assert.equal(interpolate(template, { index: 2, total: 5, maxLength: 300 }), '第 2/5 段，300 字');
+  assert.throws(() => interpolate(template, { index: 2 }), /missing variable total, maxLength/);
+});
@@ -0,0 +1,170 @@
+/**
+ * 提示词模板
+ *
+ * 模板文件位于 <dir>/<locale>/<name>.md，开头为 front matter：
+ *
+ *   ---
+ *   version: 2
+ *   description: 可选说明
+ *   ---
+ *   模板正文，使用 {{maxLength}} 插入变量
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { CONTENT_TYPES, PromptError } from '../../types';
+
+export interface PromptTemplate {
+  locale: string;
+  name: string;
+  version: string;
+  body: string;
+  // 正文中使用的变量
+  variables: string[];
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  text: string;
+  // name@version，记录在 LLM 结果上
+  ref: string;
+}
+
+// 所有模板都可使用的变量
+const COMMON_VARIABLES = ['locale', 'language'];
+
+/**
+ * 各模板可使用的变量
+ */
+export const PROMPT_SPECS: Record<string, string[]> = {
+  'title': [],
+  'title-batch': [],
+  ...Object.fromEntries(CONTENT_TYPES.map(type => [`summary-${type}`, ['maxLength']])),
+  'chunk': ['index', 'total', 'maxLength'],
+  'reduce': ['summaryPrompt', 'maxLength'],
+  'reduce-part': ['index'],
+  'comment': ['maxLength'],
+  'enrich': ['categories', 'contentTypes'],
+  'enrich-input': ['title', 'contentType', 'content'],
+  'no-content': [],
+  'repair': ['errors'],
+  'digest': ['days', 'maxLength'],
+  'overview': ['maxLength', 'minThemes', 'maxThemes'],
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * 解析模板文件，校验 front matter 和变量
+ */
+export function parsePromptTemplate(locale: string, name: string, source: string): PromptTemplate {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new PromptError(`Prompt ${locale}/${name}: missing front matter`);
+  }
+
+  const meta = new Map<string, string>();
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      meta.set(line.substring(0, separator).trim(), line.substring(separator + 1).trim());
+    }
+  }
+
+  const version = meta.get('version');
+  if (!version) {
+    throw new PromptError(`Prompt ${locale}/${name}: missing version`);
+  }
+
+  const body = match[2].replace(/\s+$/, '');
+  const variables = [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+
+  const allowed = [...COMMON_VARIABLES, ...(PROMPT_SPECS[name] ?? [])];
+  const unknown = variables.filter(v => !allowed.includes(v));
+  if (unknown.length > 0) {
+    throw new PromptError(
+      `Prompt ${locale}/${name}: unknown variable ${unknown.map(v => `{{${v}}}`).join(', ')} (available: ${allowed.join(', ')})`
+    );
+  }
+
+  return { locale, name, version, body, variables };
+}
+
+/**
+ * 插入变量，缺少任何一个变量时抛出错误
+ */
+export function interpolate(template: PromptTemplate, variables: PromptVariables): string {
+  const missing = template.variables.filter(v => variables[v] === undefined);
+  if (missing.length > 0) {
+    throw new PromptError(`Prompt ${template.locale}/${template.name}: missing variable ${missing.join(', ')}`);
+  }
+  return template.body.replace(VARIABLE_PATTERN, (_, key: string) => String(variables[key]));
+}
+
+export class PromptLibrary {
+  private templates = new Map<string, PromptTemplate>();
+  private loaded = false;
+
+  /**
+   * 读取目录下所有语言的模板
+   */
+  async load(dir: string): Promise<void> {
+    const templates = new Map<string, PromptTemplate>();
+
+    let locales: string[];
+    try {
+      locales = (await readdir(dir, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name);
+    } catch (error) {
+      throw new PromptError(`Cannot read prompt directory ${dir}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const locale of locales) {
+      for (const file of await readdir(join(dir, locale))) {
+        if (!file.endsWith('.md')) continue;
+        const name = file.slice(0, -'.md'.length);
+        if (!(name in PROMPT_SPECS)) {
+          throw new PromptError(`Unknown prompt template ${locale}/${file} (available: ${Object.keys(PROMPT_SPECS).join(', ')})`);
+        }
+        const source = await readFile(join(dir, locale, file), 'utf-8');
+        templates.set(`${locale}/${name}`, parsePromptTemplate(locale, name, source));
+      }
+    }
+
+    this.templates = templates;
+    this.loaded = true;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  get(locale: string, name: string): PromptTemplate {
+    const template = this.templates.get(`${locale}/${name}`);
+    if (!template) {
+      throw new PromptError(
+        this.loaded ? `Missing prompt template ${locale}/${name}.md` : 'Prompt templates not loaded'
+      );
+    }
+    return template;
+  }
+
+  render(locale: string, name: string, variables: PromptVariables = {}): RenderedPrompt {
+    const template = this.get(locale, name);
+    return {
+      text: interpolate(template, variables),
+      ref: `${name}@${template.version}`,
+    };
+  }
+
+  /**
+   * 返回指定语言缺少的模板
+   */
+  missing(locale: string, names: string[]): string[] {
+    return names.filter(name => !this.templates.has(`${locale}/${name}`));
+  }
+}
+
+export const prompts = new PromptLibrary();
@@ -0,0 +1,54 @@
+/**
+ * Discord webhook
+ */
+
+import { request } from '../../utils/fetch';
+import { getLocale } from '../../locales';
+import { encodeLinkUrl, getPostLink, redactWebhookUrl, NOTIFY_STORY_LIMIT } from './format';
+import type { Publisher } from './types';
+
+// Discord 单条消息的字符上限
+const MAX_CONTENT_LENGTH = 2000;
+
+/**
+ * 转义 Discord Markdown 控制字符，避免标题破坏链接格式
+ */
+function escapeDiscord(text: string): string {
+  return text.replace(/[\\*_~`|[\]()<>]/g, char => `\\${char}`);
+}
+
+export const discordPublisher: Publisher = {
+  name: 'discord',
+
+  validate(config) {
+    return config.discord?.webhookUrl ? [] : ['未设置 DISCORD_WEBHOOK_URL'];
+  },
+
+  async publish(ctx) {
+    const { webhookUrl } = ctx.config.discord!;
+    const { labels } = getLocale(ctx.posts[0].locale);
+    const link = getPostLink(ctx);
+
+    const header = `📰 **${escapeDiscord(ctx.title)}**`;
+    const footer = link ? `\n\n[${escapeDiscord(labels.viewPost)}](<${encodeLinkUrl(link)}>)` : '';
+    let content = header;
+    for (const [i, story] of ctx.stories.slice(0, NOTIFY_STORY_LIMIT).entries()) {
+      // <url> 禁止链接预览
+      const line = `\n${i + 1}. [${escapeDiscord(story.titleChinese)}](<${encodeLinkUrl(story.url)}>)`;
+      if (content.length + line.length + footer.length > MAX_CONTENT_LENGTH) break;
+      content += line;
+    }
+    content += footer;
+
+    await request(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        content,
+        // 标题来自外部，不解析 @everyone 等提及
+        allowed_mentions: { parse: [] },
+      }),
+    });
+    return [redactWebhookUrl(webhookUrl)];
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * 通知类发布目标共用的格式化工具
+ */
+
+import { getPostUrlForFile } from '../markdownExporter';
+import { getGitHubFileUrl, resolvePostPath } from './github';
+import type { RenderedPost } from '../../pipeline/types';
+import type { PublishContext } from './types';
+
+// 通知中列出的文章数
+export const NOTIFY_STORY_LIMIT = 10;
+
+/**
+ * 文章的阅读地址：优先站点地址，其次 GitHub 仓库中的文件
+ */
+export function getPostLink(ctx: PublishContext, post: RenderedPost = ctx.posts[0]): string | undefined {
+  const { siteUrl, permalink, github } = ctx.config;
+  if (siteUrl) {
+    return getPostUrlForFile(siteUrl, permalink, post.filename);
+  }
+  if (github) {
+    return getGitHubFileUrl(github, resolvePostPath(github, ctx.date, post.filename));
+  }
+  return undefined;
+}
+
+/**
+ * webhook 地址本身是凭据，日志和结果中只保留域名
+ */
+export function redactWebhookUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/…`;
+  } catch {
+    return 'webhook';
+  }
+}
+
+/**
+ * 链接地址中的空白、尖括号、括号和竖线会破坏 Slack / Discord 的链接语法
+ */
+export function encodeLinkUrl(url: string): string {
+  return url.replace(/[\s<>()|]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
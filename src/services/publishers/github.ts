@@ -0,0 +1,283 @@
+/**
+ * 发布到 GitHub 仓库（Git Data API）
+ *
+ * 所有文章和导出文件在一次提交中更新：读取分支 → 基于其 tree 新建 tree → 新建 commit → 快进分支。
+ * 分支在此期间被其他提交更新时（非快进），基于新的分支头重试。
+ */
+
+import { get, patch, post, FetchError } from '../../utils/fetch';
+import { getLimiter } from '../../utils/scheduler';
+import { parseDateString, formatDateForDisplay } from '../../utils/date';
+import { expandPathTemplate, PATH_TEMPLATE_VARIABLES } from '../markdownExporter';
+import type { PipelineConfig } from '../../pipeline/types';
+import type { Publisher } from './types';
+
+type GitHubConfig = NonNullable<PipelineConfig['github']>;
+
+export interface GitHubLayout {
+  // 文章路径模板，可用 {year} {month} {day} {date} {filename} {slug}
+  postPath: string;
+  // 导出文件（feed 等）所在目录，对应站点根目录
+  assetDir: string;
+  // 生成器默认 permalink 下的文章地址（相对站点地址），变量同 postPath
+  permalink: string;
+}
+
+// 常见静态站点生成器的目录结构
+export const GITHUB_LAYOUTS: Record<string, GitHubLayout> = {
+  jekyll: { postPath: '_posts/{filename}', assetDir: '', permalink: '/{year}/{month}/{day}/{slug}.html' },
+  hugo: { postPath: 'content/posts/{filename}', assetDir: 'static', permalink: '/posts/{name}/' },
+  hexo: { postPath: 'source/_posts/{filename}', assetDir: 'source', permalink: '/{year}/{month}/{day}/{name}/' },
+};
+
+// 分支被并发更新时的最大重试次数
+const MAX_COMMIT_RETRIES = 3;
+
+interface GitRef {
+  object: { sha: string };
+}
+
+interface GitCommit {
+  sha: string;
+  tree: { sha: string };
+}
+
+interface GitTree {
+  sha: string;
+}
+
+interface PullRequest {
+  html_url: string;
+}
+
+/**
+ * 布局预设 + 单项覆盖
+ */
+export function getGitHubLayout(config: GitHubConfig): GitHubLayout {
+  const preset = GITHUB_LAYOUTS[config.layout] ?? GITHUB_LAYOUTS.jekyll;
+  return {
+    postPath: config.postPath || preset.postPath,
+    assetDir: config.assetDir ?? preset.assetDir,
+    permalink: preset.permalink,
+  };
+}
+
+/**
+ * 文章在仓库中的路径
+ */
+export function resolvePostPath(config: GitHubConfig, date: string, filename: string): string {
+  return expandPathTemplate(getGitHubLayout(config).postPath, formatDateForDisplay(parseDateString(date)), filename);
+}
+
+function resolveAssetPath(config: GitHubConfig, path: string): string {
+  const { assetDir } = getGitHubLayout(config);
+  return assetDir ? `${assetDir.replace(/\/+$/, '')}/${path}` : path;
+}
+
+/**
+ * 文件在仓库网页上的地址
+ */
+export function getGitHubFileUrl(config: GitHubConfig, path: string): string {
+  return `https://github.com/${config.repo}/blob/${config.branch}/${path}`;
+}
+
+function apiUrl(config: GitHubConfig, path: string): string {
+  return `https://api.github.com/repos/${config.repo}/${path}`;
+}
+
+function authHeaders(config: GitHubConfig): Record<string, string> {
+  return { 'Authorization': `token ${config.token}` };
+}
+
+/**
+ * 经过 github 限流器发送请求
+ */
+function githubApi<T>(task: () => Promise<{ data: T }>): Promise<T> {
+  return getLimiter('github').schedule(async () => (await task()).data);
+}
+
+/**
+ * 检查文章是否已存在于 GitHub 仓库
+ */
+export async function isPublishedToGitHub(
+  date: string,
+  filename: string,
+  config: GitHubConfig
+): Promise<boolean> {
+  const path = resolvePostPath(config, date, filename);
+  const url = apiUrl(config, `contents/${path}?ref=${config.branch}`);
+  try {
+    await githubApi(() => get(url, { headers: authHeaders(config) }));
+    return true;
+  } catch (error) {
+    if (error instanceof FetchError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function getBranchHead(config: GitHubConfig, branch: string): Promise<string> {
+  const ref = await githubApi(() => get<GitRef>(apiUrl(config, `git/ref/heads/${branch}`), { headers: authHeaders(config) }));
+  return ref.object.sha;
+}
+
+/**
+ * 基于 parent 创建包含所有文件的提交，内容没有变化时返回 null
+ */
+async function createCommit(
+  config: GitHubConfig,
+  parent: string,
+  files: Array<{ path: string; content: string }>,
+  message: string
+): Promise<string | null> {
+  const headers = authHeaders(config);
+  const parentCommit = await githubApi(() => get<GitCommit>(apiUrl(config, `git/commits/${parent}`), { headers }));
+
+  const tree = await githubApi(() => post<GitTree>(apiUrl(config, 'git/trees'), {
+    base_tree: parentCommit.tree.sha,
+    tree: files.map(file => ({ path: file.path, mode: '100644', type: 'blob', content: file.content })),
+  }, { headers }));
+  if (tree.sha === parentCommit.tree.sha) {
+    return null;
+  }
+
+  const commit = await githubApi(() => post<GitCommit>(apiUrl(config, 'git/commits'), {
+    message,
+    tree: tree.sha,
+    parents: [parent],
+  }, { headers }));
+  return commit.sha;
+}
+
+/**
+ * 422 表示分支不是快进更新（或引用已存在）
+ */
+function isUnprocessable(error: unknown): boolean {
+  return error instanceof FetchError && error.status === 422;
+}
+
+/**
+ * 提交到分支，分支被并发更新时基于新的分支头重试；返回提交 sha，无变化时返回 null
+ */
+async function commitToBranch(
+  config: GitHubConfig,
+  branch: string,
+  files: Array<{ path: string; content: string }>,
+  message: string
+): Promise<string | null> {
+  for (let attempt = 1; ; attempt++) {
+    const head = await getBranchHead(config, branch);
+    const sha = await createCommit(config, head, files, message);
+    if (!sha) {
+      return null;
+    }
+
+    try {
+      await githubApi(() => patch(apiUrl(config, `git/refs/heads/${branch}`), { sha, force: false }, { headers: authHeaders(config) }));
+      return sha;
+    } catch (error) {
+      if (isUnprocessable(error) && attempt <= MAX_COMMIT_RETRIES) {
+        console.warn(`  ↻ ${branch} 分支已更新，重新提交（${attempt}/${MAX_COMMIT_RETRIES}）`);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * PR 模式：在 hn-daily/<date>（周报 / 月报为 hn-daily/<kind>-<date>）分支上提交并创建（或复用）指向目标分支的 PR
+ */
+async function openPullRequest(
+  config: GitHubConfig,
+  name: string,
+  files: Array<{ path: string; content: string }>,
+  message: string
+): Promise<string> {
+  const headers = authHeaders(config);
+  const branch = `hn-daily/${name}`;
+  const base = await getBranchHead(config, config.branch);
+  const sha = await createCommit(config, base, files, message);
+  if (!sha) {
+    throw new Error(`${config.branch} 分支中的内容与本次生成的内容相同，无需创建 PR`);
+  }
+
+  // 日报分支只由本工具写入，已存在时直接覆盖
+  try {
+    await githubApi(() => post(apiUrl(config, 'git/refs'), { ref: `refs/heads/${branch}`, sha }, { headers }));
+  } catch (error) {
+    if (!isUnprocessable(error)) {
+      throw error;
+    }
+    await githubApi(() => patch(apiUrl(config, `git/refs/heads/${branch}`), { sha, force: true }, { headers }));
+  }
+
+  try {
+    const pr = await githubApi(() => post<PullRequest>(apiUrl(config, 'pulls'), {
+      title: message,
+      head: branch,
+      base: config.branch,
+      body: files.map(file => `- \`${file.path}\``).join('\n'),
+    }, { headers }));
+    return pr.html_url;
+  } catch (error) {
+    if (!isUnprocessable(error)) {
+      throw error;
+    }
+    // PR 已存在，分支更新后自动包含新提交
+    const owner = config.repo.split('/')[0];
+    const existing = await githubApi(() => get<PullRequest[]>(
+      apiUrl(config, `pulls?head=${owner}:${encodeURIComponent(branch)}&base=${encodeURIComponent(config.branch)}&state=open`),
+      { headers }
+    ));
+    if (!existing[0]) {
+      throw error;
+    }
+    return existing[0].html_url;
+  }
+}
+
+export const githubPublisher: Publisher = {
+  name: 'github',
+
+  validate(config) {
+    const { github } = config;
+    if (!github) {
+      return ['未设置 GITHUB_TOKEN 或 TARGET_REPO'];
+    }
+
+    const errors: string[] = [];
+    if (!GITHUB_LAYOUTS[github.layout]) {
+      errors.push(`未知的 GITHUB_LAYOUT: ${github.layout}（可选: ${Object.keys(GITHUB_LAYOUTS).join(', ')}）`);
+    }
+    const unknown = [...getGitHubLayout(github).postPath.matchAll(/\{(\w+)\}/g)]
+      .map(match => match[1])
+      .filter(name => !PATH_TEMPLATE_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+      errors.push(`GITHUB_POST_PATH 中有未知变量: ${unknown.join(', ')}（可选: ${PATH_TEMPLATE_VARIABLES.join(', ')}）`);
+    }
+    return errors;
+  },
+
+  async publish({ kind, date, posts, files, config }) {
+    const github = config.github!;
+    const changes = [
+      ...posts.map(post => ({ path: resolvePostPath(github, date, post.filename), content: post.markdown })),
+      ...files.map(file => ({ path: resolveAssetPath(github, file.path), content: file.content })),
+    ];
+    const message = `Add HackerNews ${kind} for ${date}`;
+
+    if (github.pullRequest) {
+      return [await openPullRequest(github, kind === 'daily' ? date : `${kind}-${date}`, changes, message)];
+    }
+
+    const sha = await commitToBranch(github, github.branch, changes, message);
+    const urls = changes.map(change => getGitHubFileUrl(github, change.path));
+    if (!sha) {
+      console.log('  内容没有变化，跳过提交');
+      return urls;
+    }
+    return [`https://github.com/${github.repo}/commit/${sha}`, ...urls];
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * Publisher 注册表
+ *
+ * 各发布目标独立执行和重试，一个目标失败不影响其他目标
+ */
+
+import { localPublisher } from './local';
+import { githubPublisher } from './github';
+import { telegramPublisher } from './telegram';
+import { webhookPublisher } from './webhook';
+import { slackPublisher } from './slack';
+import { discordPublisher } from './discord';
+import type { PublishContext, Publisher, PublishResult } from './types';
+
+export type { PublishContext, PublishKind, Publisher, PublishResult } from './types';
+export { writeLocalFile } from './local';
+export { isPublishedToGitHub, GITHUB_LAYOUTS } from './github';
+
+// 重试间隔基数（毫秒），按尝试次数指数增长
+const RETRY_BASE_DELAY = 2000;
+
+const registry = new Map<string, Publisher>();
+
+export function registerPublisher(publisher: Publisher): void {
+  registry.set(publisher.name, publisher);
+}
+
+export function getPublisherNames(): string[] {
+  return [...registry.keys()];
+}
+
+export function getPublisher(name: string): Publisher | undefined {
+  return registry.get(name);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 执行单个发布目标，失败时按 retries 重试，不抛出异常
+ */
+export async function runPublisher(
+  publisher: Publisher,
+  ctx: PublishContext,
+  retries: number
+): Promise<PublishResult> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) {
+      const delay = RETRY_BASE_DELAY * 2 ** (attempt - 2);
+      console.warn(`  ↻ ${publisher.name} 第 ${attempt - 1} 次重试（${delay / 1000}s 后）`);
+      await sleep(delay);
+    }
+    try {
+      const locations = await publisher.publish(ctx);
+      return { publisher: publisher.name, status: 'success', attempts: attempt, locations };
+    } catch (error) {
+      lastError = error;
+      console.warn(`  ⚠️  ${publisher.name} 发布失败: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return {
+    publisher: publisher.name,
+    status: 'failed',
+    attempts: retries + 1,
+    locations: [],
+    error: lastError instanceof Error ? lastError.message : String(lastError),
+  };
+}
+
+/**
+ * 发布结果汇总，每个目标一行，后跟发布位置
+ */
+export function formatPublishResults(results: PublishResult[]): string[] {
+  return results.flatMap(result => {
+    const retried = result.attempts > 1 ? `（尝试 ${result.attempts} 次）` : '';
+    if (result.status === 'failed') {
+      return [`❌ ${result.publisher}: ${result.error}${retried}`];
+    }
+    return [
+      `✓ ${result.publisher}${retried}`,
+      ...result.locations.map(location => `    ${location}`),
+    ];
+  });
+}
+
+registerPublisher(localPublisher);
+registerPublisher(githubPublisher);
+registerPublisher(telegramPublisher);
+registerPublisher(webhookPublisher);
+registerPublisher(slackPublisher);
+registerPublisher(discordPublisher);
@@ -0,0 +1,41 @@
+/**
+ * 写入本地目录
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { Publisher } from './types';
+
+/**
+ * 把文件写入本地目录（relativePath 可包含子目录），返回文件路径
+ */
+export async function writeLocalFile(
+  outputDir: string,
+  relativePath: string,
+  content: string
+): Promise<string> {
+  const path = join(outputDir, relativePath);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, 'utf-8');
+  return path;
+}
+
+export const localPublisher: Publisher = {
+  name: 'local',
+
+  validate(config) {
+    return config.outputDir ? [] : ['local 发布需要指定 --output'];
+  },
+
+  async publish({ posts, files, config }) {
+    const outputDir = config.outputDir!;
+    const paths: string[] = [];
+    for (const post of posts) {
+      paths.push(await writeLocalFile(outputDir, post.filename, post.markdown));
+    }
+    for (const file of files) {
+      paths.push(await writeLocalFile(outputDir, file.path, file.content));
+    }
+    return paths;
+  },
+};
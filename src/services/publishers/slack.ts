@@ -0,0 +1,57 @@
+/**
+ * Slack incoming webhook
+ */
+
+import { request } from '../../utils/fetch';
+import { getLocale } from '../../locales';
+import { encodeLinkUrl, getPostLink, redactWebhookUrl, NOTIFY_STORY_LIMIT } from './format';
+import type { Publisher } from './types';
+
+/**
+ * Slack mrkdwn 只需转义 & < >
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function slackLink(url: string, text: string): string {
+  // 链接文本中的 | 会截断链接
+  return `<${encodeLinkUrl(url)}|${escapeSlack(text).replace(/\|/g, '¦')}>`;
+}
+
+export const slackPublisher: Publisher = {
+  name: 'slack',
+
+  validate(config) {
+    return config.slack?.webhookUrl ? [] : ['未设置 SLACK_WEBHOOK_URL'];
+  },
+
+  async publish(ctx) {
+    const { webhookUrl } = ctx.config.slack!;
+    const { labels } = getLocale(ctx.posts[0].locale);
+    const link = getPostLink(ctx);
+
+    const lines = ctx.stories
+      .slice(0, NOTIFY_STORY_LIMIT)
+      .map((story, i) => `${i + 1}. ${slackLink(story.url, story.titleChinese)}`);
+    if (ctx.stories.length > NOTIFY_STORY_LIMIT) {
+      lines.push(`… ${escapeSlack(labels.storyCount.replace('{count}', String(ctx.stories.length)))}`);
+    }
+
+    const blocks: unknown[] = [
+      { type: 'header', text: { type: 'plain_text', text: `📰 ${ctx.title}` } },
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') || escapeSlack(labels.storyCount.replace('{count}', '0')) } },
+    ];
+    if (link) {
+      blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: slackLink(link, labels.viewPost) }] });
+    }
+
+    await request(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // text 作为通知和不支持 blocks 的客户端的回退内容
+      body: JSON.stringify({ text: escapeSlack(ctx.title), blocks }),
+    });
+    return [redactWebhookUrl(webhookUrl)];
+  },
+};
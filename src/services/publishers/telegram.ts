@@ -0,0 +1,172 @@
+/**
+ * 发布到 Telegram 频道
+ *
+ * - link: 只发送文章数和日报链接
+ * - digest: 完整内容转为 Telegram HTML，按 4096 字符上限拆分为多条消息
+ * - story: 标题消息 + 每篇文章一条消息，附「原文」「HN 讨论」按钮
+ */
+
+import { post, FetchError } from '../../utils/fetch';
+import { getLimiter } from '../../utils/scheduler';
+import { getLocale } from '../../locales';
+import { getPostLink } from './format';
+import {
+  getHackerNewsUrl,
+  getSourceUrl,
+  packMessages,
+  renderHeaderHtml,
+  renderStoryHtml,
+} from './telegramHtml';
+import type { PublishContext, Publisher } from './types';
+
+export const TELEGRAM_MODES = ['link', 'digest', 'story'];
+
+// 遇到 429 时按 retry_after 等待的最大次数和单次最长等待（秒）
+const MAX_FLOOD_RETRIES = 3;
+const MAX_FLOOD_WAIT = 300;
+
+interface TelegramMessage {
+  message_id: number;
+}
+
+interface InlineKeyboard {
+  inline_keyboard: Array<Array<{ text: string; url: string }>>;
+}
+
+// 各次发布已发送的消息：runPublisher 重试时传入同一个 ctx，从未发送的消息继续，避免频道中出现重复消息
+const sentMessages = new WeakMap<PublishContext, TelegramMessage[]>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 从 429 响应中读取 retry_after（秒），不是 flood wait 时返回 null
+ */
+function getFloodWait(error: unknown): number | null {
+  if (!(error instanceof FetchError) || error.status !== 429 || !error.body) {
+    return null;
+  }
+  try {
+    const retryAfter = JSON.parse(error.body)?.parameters?.retry_after;
+    return typeof retryAfter === 'number' ? retryAfter : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 调用 Bot API，经过共享限流器；flood wait 时按 Telegram 要求的时间等待后重试
+ */
+async function callTelegram<T>(botToken: string, method: string, body: Record<string, unknown>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await getLimiter('telegram').schedule(() =>
+        // 429 由下方按 retry_after 处理
+        post<{ result: T }>(`https://api.telegram.org/bot${botToken}/${method}`, body, { retry: { retryOn: [503] } })
+      );
+      return response.data.result;
+    } catch (error) {
+      const wait = getFloodWait(error);
+      if (wait !== null && wait <= MAX_FLOOD_WAIT && attempt < MAX_FLOOD_RETRIES) {
+        console.warn(`  ⏳ Telegram 限流，${wait}s 后重试`);
+        await sleep(wait * 1000);
+        continue;
+      }
+      if (error instanceof FetchError) {
+        throw new Error(`Telegram API error: ${error.status} - ${error.body}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * 公开频道（@username）返回消息链接，否则返回 chat id + 消息 id
+ */
+function messageLocation(channelId: string, messageId: number): string {
+  return channelId.startsWith('@')
+    ? `https://t.me/${channelId.slice(1)}/${messageId}`
+    : `telegram:${channelId}#${messageId}`;
+}
+
+export const telegramPublisher: Publisher = {
+  name: 'telegram',
+
+  validate(config) {
+    const { telegram } = config;
+    const errors: string[] = [];
+    if (!telegram?.botToken || !telegram?.channelId) {
+      errors.push('未设置 TELEGRAM_BOT_TOKEN 或 TELEGRAM_CHANNEL_ID');
+    }
+    if (telegram && !TELEGRAM_MODES.includes(telegram.mode)) {
+      errors.push(`未知的 TELEGRAM_MODE: ${telegram.mode}（可选: ${TELEGRAM_MODES.join(', ')}）`);
+    }
+    return errors;
+  },
+
+  async publish(ctx) {
+    const { botToken, channelId, mode, pin } = ctx.config.telegram!;
+    const locale = getLocale(ctx.posts[0].locale);
+    const { labels } = locale;
+    const link = getPostLink(ctx);
+    const header = renderHeaderHtml(ctx.title, ctx.stories.length, locale, link);
+
+    // 每条消息及其按钮
+    const messages: Array<{ text: string; keyboard?: InlineKeyboard }> = [];
+    if (mode === 'digest') {
+      const blocks = ctx.stories.map((story, i) => renderStoryHtml(story, i + 1, locale, true));
+      messages.push(...packMessages([header, ...blocks]).map(text => ({ text })));
+    } else {
+      messages.push({ text: header });
+      if (mode === 'story') {
+        ctx.stories.forEach((story, i) => messages.push({
+          text: renderStoryHtml(story, i + 1, locale, false),
+          keyboard: {
+            inline_keyboard: [[
+              { text: labels.source, url: getSourceUrl(story) },
+              { text: labels.discussion, url: getHackerNewsUrl(story) },
+            ]],
+          },
+        }));
+      }
+    }
+
+    // 依次发送以保持顺序；只有第一条消息通知订阅者
+    const sent = sentMessages.get(ctx) ?? [];
+    sentMessages.set(ctx, sent);
+    if (sent.length > 0) {
+      console.log(`  ↪️  Telegram 已发送 ${sent.length}/${messages.length} 条消息，从第 ${sent.length + 1} 条继续`);
+    }
+    for (const [i, message] of messages.entries()) {
+      if (i < sent.length) {
+        continue;
+      }
+      sent.push(await callTelegram<TelegramMessage>(botToken!, 'sendMessage', {
+        chat_id: channelId,
+        text: message.text,
+        parse_mode: 'HTML',
+        link_preview_options: { is_disabled: true },
+        disable_notification: i > 0,
+        ...(message.keyboard && { reply_markup: message.keyboard }),
+      }));
+    }
+
+    const first = sent[0].message_id;
+    if (pin) {
+      // 置顶失败（例如 Bot 没有置顶权限）不影响发布结果
+      try {
+        await callTelegram<boolean>(botToken!, 'pinChatMessage', {
+          chat_id: channelId,
+          message_id: first,
+          disable_notification: true,
+        });
+      } catch (error) {
+        console.warn(`  ⚠️  Telegram 置顶失败: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const location = messageLocation(channelId!, first);
+    return [sent.length > 1 ? `${location}（共 ${sent.length} 条消息）` : location];
+  },
+};
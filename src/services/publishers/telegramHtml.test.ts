@@ -0,0 +1,46 @@
+/**
+ * Telegram 消息拆分与截断测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { packMessages, renderStoryHtml } from './telegramHtml';
+import { getLocale } from '../../locales';
+import type { ProcessedStory } from '../../types';
+
+test('packMessages 在上限内合并相邻内容', () => {
+  assert.deepEqual(packMessages(['aaa', 'bbb', 'ccc'], 8), ['aaa\n\nbbb', 'ccc']);
+  assert.deepEqual(packMessages(['aaa', 'bbb'], 100), ['aaa\n\nbbb']);
+});
+
+test('packMessages 不拆开单段内容', () => {
+  assert.deepEqual(packMessages(['a'.repeat(10), 'b', 'c'.repeat(10)], 5), ['a'.repeat(10), 'b', 'c'.repeat(10)]);
+});
+
+test('packMessages 处理空列表', () => {
+  assert.deepEqual(packMessages([]), []);
+});
+
+test('renderStoryHtml 逐步截断正文直到不超过上限', () => {
+  const story: ProcessedStory = {
+    rank: 1,
+    storyId: 1,
+    titleEnglish: 'Story <1>',
+    titleChinese: '文章 <1>',
+    url: 'https://example.com/a?b=1&c=2',
+    score: 100,
+    time: '2024-01-01 00:00',
+    timestamp: 1704067200,
+    description: '描述'.repeat(1500),
+    commentSummary: '评论'.repeat(1500),
+    locale: 'zh-CN',
+    tldr: '总结'.repeat(500),
+    keyPoints: ['要点'.repeat(400), '要点'.repeat(400), '要点'.repeat(400)],
+  };
+
+  const html = renderStoryHtml(story, 1, getLocale('zh-CN'), true);
+  assert.ok(html.length <= 4096, `长度为 ${html.length}`);
+  assert.ok(html.startsWith('<b>1. 文章 &lt;1&gt;</b>'));
+  assert.ok(html.includes('href="https://example.com/a?b=1&amp;c=2"'));
+  assert.ok(html.includes('…'));
+});
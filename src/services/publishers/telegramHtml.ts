@@ -0,0 +1,139 @@
+/**
+ * Telegram HTML 消息格式
+ *
+ * Telegram 只支持少量标签（b / i / a / code / pre / blockquote），文本中的 & < > 必须转义
+ */
+
+import { escapeHtml, safeUrl } from '../../utils/html';
+import { localizeCategory } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import type { ProcessedStory } from '../../types';
+
+// 单条消息的字符上限
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// 每轮截断时保留的摘要比例
+const SHRINK_RATIO = 0.8;
+
+export function getHackerNewsUrl(story: ProcessedStory): string {
+  return `https://news.ycombinator.com/item?id=${story.storyId}`;
+}
+
+/**
+ * 原文地址，非 http(s) 链接退回 HN 讨论页
+ */
+export function getSourceUrl(story: ProcessedStory): string {
+  const url = safeUrl(story.url);
+  return url === '#' ? getHackerNewsUrl(story) : url;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength).trimEnd()}…` : text;
+}
+
+/**
+ * 标签转为 hashtag，只保留字母、数字和下划线
+ */
+function toHashtag(tag: string): string {
+  return `#${tag.replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/g, '')}`;
+}
+
+function renderStory(
+  story: ProcessedStory,
+  index: number,
+  locale: LocaleDefinition,
+  withLinks: boolean,
+  maxTextLength: number
+): string {
+  const { labels } = locale;
+  const lines: string[] = [`<b>${index}. ${escapeHtml(story.titleChinese)}</b>`];
+  if (story.titleChinese !== story.titleEnglish) {
+    lines.push(`<i>${escapeHtml(story.titleEnglish)}</i>`);
+  }
+
+  const meta = [`${story.score} points`];
+  if (story.category) {
+    meta.push(escapeHtml(localizeCategory(locale, story.category)));
+  }
+  if (story.tags?.length) {
+    meta.push(story.tags.map(tag => escapeHtml(toHashtag(tag))).join(' '));
+  }
+  lines.push(meta.join(' · '));
+
+  if (story.tldr) {
+    lines.push(`<blockquote>${escapeHtml(truncate(story.tldr, maxTextLength))}</blockquote>`);
+  }
+
+  lines.push('', escapeHtml(truncate(story.description?.trim() || labels.noDescription, maxTextLength)));
+
+  if (story.keyPoints?.length) {
+    lines.push('', ...story.keyPoints.map(point => `• ${escapeHtml(truncate(point, maxTextLength))}`));
+  }
+
+  if (!locale.summaryOnly && story.commentSummary?.trim()) {
+    lines.push('', `💬 <b>${escapeHtml(labels.comments)}</b>`, escapeHtml(truncate(story.commentSummary.trim(), maxTextLength)));
+  }
+
+  if (withLinks) {
+    lines.push('', `<a href="${escapeHtml(getSourceUrl(story))}">${escapeHtml(labels.source)}</a> | <a href="${escapeHtml(getHackerNewsUrl(story))}">${escapeHtml(labels.discussion)}</a>`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 单篇文章的消息内容，超出长度上限时逐步截断 TL;DR、描述、要点和评论摘要
+ */
+export function renderStoryHtml(
+  story: ProcessedStory,
+  index: number,
+  locale: LocaleDefinition,
+  withLinks: boolean,
+  limit: number = TELEGRAM_MESSAGE_LIMIT
+): string {
+  let maxTextLength = Math.max(
+    story.description?.length ?? 0,
+    story.commentSummary?.length ?? 0,
+    story.tldr?.length ?? 0,
+    ...(story.keyPoints ?? []).map(point => point.length)
+  );
+  let html = renderStory(story, index, locale, withLinks, maxTextLength);
+  while (html.length > limit && maxTextLength > 0) {
+    maxTextLength = Math.floor(maxTextLength * SHRINK_RATIO);
+    html = renderStory(story, index, locale, withLinks, maxTextLength);
+  }
+  return html;
+}
+
+/**
+ * 标题消息
+ */
+export function renderHeaderHtml(title: string, count: number, locale: LocaleDefinition, link?: string): string {
+  const { labels } = locale;
+  let html = `📰 <b>${escapeHtml(title)}</b>\n\n${escapeHtml(labels.storyCount.replace('{count}', String(count)))}`;
+  if (link) {
+    html += `\n\n<a href="${escapeHtml(link)}">${escapeHtml(labels.viewPost)}</a>`;
+  }
+  return html;
+}
+
+/**
+ * 把若干段内容合并为尽量少的消息，每段不会被拆开（单段需已在上限以内）
+ */
+export function packMessages(blocks: string[], limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const messages: string[] = [];
+  let current = '';
+  for (const block of blocks) {
+    const next = current ? `${current}\n\n${block}` : block;
+    if (next.length > limit && current) {
+      messages.push(current);
+      current = block;
+    } else {
+      current = next;
+    }
+  }
+  if (current) {
+    messages.push(current);
+  }
+  return messages;
+}
@@ -0,0 +1,43 @@
+/**
+ * Publisher 接口
+ */
+
+import type { ExportedFile } from '../exporters';
+import type { DigestPeriod } from '../digest';
+import type { ProcessedStory } from '../../types';
+import type { PipelineConfig, RenderedPost } from '../../pipeline/types';
+
+export type PublishKind = 'daily' | DigestPeriod;
+
+export interface PublishContext {
+  // daily / weekly / monthly
+  kind: PublishKind;
+  // 文章日期 YYYY-MM-DD（周报 / 月报为最后一天）
+  date: string;
+  // 通知中显示的标题（主语言）
+  title: string;
+  // 全部输出语言的文章，第一篇为主语言
+  posts: RenderedPost[];
+  // 其他导出格式的文件
+  files: ExportedFile[];
+  // 主语言的文章列表（通知类发布目标使用）
+  stories: ProcessedStory[];
+  config: PipelineConfig;
+}
+
+export interface Publisher {
+  name: string;
+  // 检查该发布目标所需配置，返回缺失项说明
+  validate(config: PipelineConfig): string[];
+  // 发布并返回发布位置（文件路径、URL 等）
+  publish(ctx: PublishContext): Promise<string[]>;
+}
+
+export interface PublishResult {
+  publisher: string;
+  status: 'success' | 'failed';
+  // 尝试次数（含重试）
+  attempts: number;
+  locations: string[];
+  error?: string;
+}
@@ -0,0 +1,47 @@
+/**
+ * 通用 JSON webhook
+ *
+ * 设置 WEBHOOK_SECRET 时，请求带 X-Signature-256: sha256=<HMAC-SHA256(body)>，便于接收方校验
+ */
+
+import { createHmac } from 'crypto';
+import { request } from '../../utils/fetch';
+import { getPostLink, redactWebhookUrl } from './format';
+import type { Publisher } from './types';
+
+// 负载格式版本
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export const webhookPublisher: Publisher = {
+  name: 'webhook',
+
+  validate(config) {
+    return config.webhook?.url ? [] : ['未设置 WEBHOOK_URL'];
+  },
+
+  async publish(ctx) {
+    const { url, secret } = ctx.config.webhook!;
+    const body = JSON.stringify({
+      version: WEBHOOK_PAYLOAD_VERSION,
+      event: `${ctx.kind}.published`,
+      date: ctx.date,
+      title: ctx.title,
+      link: getPostLink(ctx) ?? null,
+      posts: ctx.posts.map(post => ({
+        locale: post.locale,
+        filename: post.filename,
+        link: getPostLink(ctx, post) ?? null,
+      })),
+      files: ctx.files.map(file => file.path),
+      stories: ctx.stories,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (secret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    await request(url, { method: 'POST', headers, body });
+    return [redactWebhookUrl(url)];
+  },
+};
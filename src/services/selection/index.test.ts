@@ -0,0 +1,76 @@
+/**
+ * 文章选择策略测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SELECTION_POLICY, scoreStory, selectStories } from './index';
+import type { SelectionPolicy } from './index';
+import type { Story } from '../../types';
+
+// 目标日期结束时间
+const END = 1704153599;
+
+function story(id: number, score: number, url?: string, title = `Story ${id}`, descendants = 0): Story {
+  return { id, title, url, score, time: END - 10 * 3600, by: 'pg', descendants };
+}
+
+function policy(overrides: Partial<SelectionPolicy>): SelectionPolicy {
+  return { ...DEFAULT_SELECTION_POLICY, ...overrides };
+}
+
+test('默认策略按 points 取前 N 篇', () => {
+  const { selected } = selectStories([story(1, 10), story(2, 30), story(3, 20)], DEFAULT_SELECTION_POLICY, 2, END);
+  assert.deepEqual(selected.map(s => s.id), [2, 3]);
+  assert.deepEqual(selected[0].selection, { score: 30, reason: '得分 30（points 30）' });
+});
+
+test('加权得分包含评论数和每小时得分', () => {
+  const { score, detail } = scoreStory(story(1, 100, undefined, 't', 40), { points: 1, comments: 0.5, velocity: 2 }, END);
+  // 发布 10 小时：100 + 40 × 0.5 + 10 × 2
+  assert.equal(score, 140);
+  assert.equal(detail, 'points 100 + comments 40 × 0.5 + velocity 10 × 2');
+});
+
+test('按域名和标题关键词过滤并统计', () => {
+  const candidates = [
+    story(1, 50, 'https://blog.spam.io/a'),
+    story(2, 40, 'https://example.com/a', 'Crypto coin news'),
+    story(3, 30, 'https://example.com/b', 'Rust 2024'),
+  ];
+  const { selected, rejected } = selectStories(candidates, policy({ denyDomains: ['spam.io'], excludeKeywords: ['crypto'] }), 10, END);
+  assert.deepEqual(selected.map(s => s.id), [3]);
+  assert.deepEqual(rejected, { domain: 1, keyword: 1, domainCap: 0 });
+});
+
+test('白名单包含子域名', () => {
+  const candidates = [story(1, 50, 'https://www.github.com/a'), story(2, 40, 'https://gist.github.com/b'), story(3, 30, 'https://gitlab.com/c')];
+  const { selected } = selectStories(candidates, policy({ allowDomains: ['github.com'] }), 10, END);
+  assert.deepEqual(selected.map(s => s.id), [1, 2]);
+});
+
+test('先为 Show HN / Ask HN 保留名额，结果仍按得分排序', () => {
+  const candidates = [
+    story(1, 300, 'https://a.com'),
+    story(2, 200, 'https://b.com'),
+    story(3, 100, 'https://c.com'),
+    story(4, 20, 'https://d.com', 'Show HN: My tool'),
+    story(5, 10, undefined, 'Ask HN: How do you work?'),
+  ];
+  const { selected } = selectStories(candidates, policy({ showSlots: 1, askSlots: 1 }), 3, END);
+  assert.deepEqual(selected.map(s => s.id), [1, 4, 5]);
+  assert.match(selected[1].selection!.reason, /^Show HN 保留名额/);
+});
+
+test('同一域名不超过上限，站内帖子不受限制', () => {
+  const candidates = [
+    story(1, 50, 'https://example.com/a'),
+    story(2, 40, 'https://example.com/b'),
+    story(3, 30, 'https://other.com/c'),
+    story(4, 20, undefined, 'Ask HN: one'),
+    story(5, 10, undefined, 'Ask HN: two'),
+  ];
+  const { selected, rejected } = selectStories(candidates, policy({ domainCap: 1 }), 4, END);
+  assert.deepEqual(selected.map(s => s.id), [1, 3, 4, 5]);
+  assert.equal(rejected.domainCap, 1);
+});
@@ -0,0 +1,228 @@
+/**
+ * 文章选择策略
+ *
+ * 1. 按域名白名单 / 黑名单和标题关键词过滤候选文章
+ * 2. 按加权得分排序：points、评论数、每小时得分（截至当天结束）
+ * 3. 先为 Show HN / Ask HN 保留名额，再按得分补足，同一域名不超过上限
+ */
+
+import type { Story, StorySelection } from '../../types';
+
+export interface SelectionWeights {
+  points: number;
+  comments: number;
+  // 每小时 points
+  velocity: number;
+}
+
+export interface SelectionPolicy {
+  weights: SelectionWeights;
+  // 非空时只保留这些域名（含子域名）的文章
+  allowDomains: string[];
+  denyDomains: string[];
+  // 标题关键词（不区分大小写）：include 非空时至少命中一个，exclude 一个都不能命中
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  // 同一域名最多入选的文章数，0 表示不限；站内帖子不受限制
+  domainCap: number;
+  // Show HN / Ask HN 保留名额
+  showSlots: number;
+  askSlots: number;
+  // 参与选择的候选文章数（按 points 取前 N）
+  candidates: number;
+}
+
+export const DEFAULT_SELECTION_POLICY: SelectionPolicy = {
+  weights: { points: 1, comments: 0, velocity: 0 },
+  allowDomains: [],
+  denyDomains: [],
+  includeKeywords: [],
+  excludeKeywords: [],
+  domainCap: 0,
+  showSlots: 0,
+  askSlots: 0,
+  candidates: 200,
+};
+
+// 站内帖子（Ask HN 等没有外链的帖子）的域名
+const HN_DOMAIN = 'news.ycombinator.com';
+
+// 计算每小时得分时的最小时长，避免刚发布的文章得分过高
+const MIN_AGE_HOURS = 1;
+
+export type StoryKind = 'show' | 'ask' | 'story';
+
+type RejectReason = 'domain' | 'keyword' | 'domainCap';
+
+const REJECT_LABELS: Record<RejectReason, string> = {
+  domain: '域名',
+  keyword: '关键词',
+  domainCap: '域名上限',
+};
+
+export interface SelectionResult {
+  selected: Story[];
+  // 各过滤原因跳过的文章数
+  rejected: Record<RejectReason, number>;
+}
+
+export function getStoryDomain(story: Story): string {
+  if (!story.url) return HN_DOMAIN;
+  try {
+    return new URL(story.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return HN_DOMAIN;
+  }
+}
+
+export function getStoryKind(story: Story): StoryKind {
+  if (/^show hn\b/i.test(story.title)) return 'show';
+  if (/^ask hn\b/i.test(story.title)) return 'ask';
+  return 'story';
+}
+
+function matchesDomain(domain: string, patterns: string[]): boolean {
+  return patterns.some(pattern => domain === pattern || domain.endsWith(`.${pattern}`));
+}
+
+/**
+ * 检查域名和关键词规则，通过时返回 null
+ */
+export function checkFilters(story: Story, policy: SelectionPolicy): RejectReason | null {
+  const domain = getStoryDomain(story);
+  if (policy.allowDomains.length > 0 && !matchesDomain(domain, policy.allowDomains)) return 'domain';
+  if (matchesDomain(domain, policy.denyDomains)) return 'domain';
+
+  const title = story.title.toLowerCase();
+  if (policy.includeKeywords.length > 0 && !policy.includeKeywords.some(keyword => title.includes(keyword))) {
+    return 'keyword';
+  }
+  if (policy.excludeKeywords.some(keyword => title.includes(keyword))) return 'keyword';
+
+  return null;
+}
+
+/**
+ * 加权得分，endTime 为目标日期结束时间（秒）
+ */
+export function scoreStory(story: Story, weights: SelectionWeights, endTime: number): { score: number; detail: string } {
+  const hours = Math.max(MIN_AGE_HOURS, (endTime - story.time) / 3600);
+  const components: Array<[string, number, number]> = [
+    ['points', story.score, weights.points],
+    ['comments', story.descendants ?? 0, weights.comments],
+    ['velocity', story.score / hours, weights.velocity],
+  ];
+
+  const used = components.filter(([, , weight]) => weight > 0);
+  const score = used.reduce((sum, [, value, weight]) => sum + value * weight, 0);
+  const detail = used
+    .map(([name, value, weight]) => `${name} ${round(value)}${weight !== 1 ? ` × ${weight}` : ''}`)
+    .join(' + ');
+  return { score: round(score), detail };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * 按策略从候选文章中选出 limit 篇，结果按得分排序，每篇附带得分和入选原因
+ */
+export function selectStories(
+  candidates: Story[],
+  policy: SelectionPolicy,
+  limit: number,
+  endTime: number
+): SelectionResult {
+  const rejected: Record<RejectReason, number> = { domain: 0, keyword: 0, domainCap: 0 };
+
+  const scored = candidates
+    .filter(story => {
+      const reason = checkFilters(story, policy);
+      if (reason) rejected[reason]++;
+      return !reason;
+    })
+    .map(story => ({ story, ...scoreStory(story, policy.weights, endTime) }))
+    .sort((a, b) => b.score - a.score);
+
+  const picked = new Map<number, StorySelection>();
+  const domainCounts = new Map<string, number>();
+
+  const withinCap = (story: Story): boolean => {
+    const domain = getStoryDomain(story);
+    if (policy.domainCap <= 0 || domain === HN_DOMAIN) return true;
+    return (domainCounts.get(domain) ?? 0) < policy.domainCap;
+  };
+  const pick = (story: Story, selection: StorySelection): void => {
+    const domain = getStoryDomain(story);
+    domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+    picked.set(story.id, selection);
+  };
+
+  // 保留名额
+  const slots: Array<[StoryKind, number, string]> = [
+    ['show', policy.showSlots, 'Show HN 保留名额'],
+    ['ask', policy.askSlots, 'Ask HN 保留名额'],
+  ];
+  for (const [kind, count, label] of slots) {
+    const reserved = scored
+      .filter(item => getStoryKind(item.story) === kind && !picked.has(item.story.id) && withinCap(item.story))
+      .slice(0, Math.min(count, limit - picked.size));
+    for (const item of reserved) {
+      pick(item.story, { score: item.score, reason: `${label}（${item.detail}）` });
+    }
+  }
+
+  // 按得分补足
+  for (const item of scored) {
+    if (picked.size >= limit) break;
+    if (picked.has(item.story.id)) continue;
+    if (!withinCap(item.story)) {
+      rejected.domainCap++;
+      continue;
+    }
+    pick(item.story, { score: item.score, reason: `得分 ${item.score}（${item.detail}）` });
+  }
+
+  const selected = scored
+    .filter(item => picked.has(item.story.id))
+    .map(item => ({ ...item.story, selection: picked.get(item.story.id) }));
+  return { selected, rejected };
+}
+
+/**
+ * 过滤统计，例如 "域名 3 · 关键词 1"
+ */
+export function formatRejected(rejected: Record<RejectReason, number>): string {
+  return (Object.keys(rejected) as RejectReason[])
+    .filter(reason => rejected[reason] > 0)
+    .map(reason => `${REJECT_LABELS[reason]} ${rejected[reason]}`)
+    .join(' · ');
+}
+
+/**
+ * 检查策略配置，返回错误说明
+ */
+export function validateSelectionPolicy(policy: SelectionPolicy): string[] {
+  const errors: string[] = [];
+  const weights = Object.entries(policy.weights);
+  for (const [name, weight] of weights) {
+    if (!(name in DEFAULT_SELECTION_POLICY.weights)) {
+      errors.push(`SELECTION_WEIGHTS 中有未知项: ${name}（可选: ${Object.keys(DEFAULT_SELECTION_POLICY.weights).join(', ')}）`);
+    } else if (!Number.isFinite(weight) || weight < 0) {
+      errors.push(`SELECTION_WEIGHTS 中 ${name} 的权重无效`);
+    }
+  }
+  if (weights.every(([, weight]) => weight === 0)) {
+    errors.push('SELECTION_WEIGHTS 的权重不能全为 0');
+  }
+  for (const [name, value] of [['SELECTION_DOMAIN_CAP', policy.domainCap], ['SELECTION_SHOW_HN_SLOTS', policy.showSlots], ['SELECTION_ASK_HN_SLOTS', policy.askSlots]] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`${name} 必须是非负整数`);
+    }
+  }
+  if (!Number.isInteger(policy.candidates) || policy.candidates <= 0) {
+    errors.push('SELECTION_CANDIDATES 必须是正整数');
+  }
+  return errors;
+}
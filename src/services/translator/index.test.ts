@@ -0,0 +1,105 @@
+/**
+ * 结构化信息与「今日看点」校验测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateEnrichment, validateOverview } from './index';
+import type { ProcessedStory } from '../../types';
+
+const CATEGORIES = ['AI', '安全', '其他'];
+
+function story(storyId: number): ProcessedStory {
+  return {
+    rank: storyId,
+    storyId,
+    titleEnglish: `Story ${storyId}`,
+    titleChinese: `文章 ${storyId}`,
+    url: `https://example.com/${storyId}`,
+    score: 100,
+    time: '2024-01-01 00:00',
+    timestamp: 1704067200,
+    description: '',
+    commentSummary: null,
+    locale: 'zh-CN',
+  };
+}
+
+test('validateEnrichment 规范化分类、要点和标签', () => {
+  const result = validateEnrichment({
+    tldr: '  一句话总结 ',
+    keyPoints: ['a', ' b ', 'c', 'd', 'e', 'f'],
+    category: 'ai',
+    tags: ['rust', 'rust', '', 'llm', 3],
+    contentType: 'article',
+  }, CATEGORIES);
+
+  assert.deepEqual(result, {
+    value: {
+      tldr: '一句话总结',
+      keyPoints: ['a', 'b', 'c', 'd', 'e'],
+      category: 'AI',
+      tags: ['rust', 'llm'],
+      contentType: 'article',
+    },
+  });
+});
+
+test('validateEnrichment 列出所有不合格的字段', () => {
+  const result = validateEnrichment({
+    tldr: '',
+    keyPoints: ['只有一条'],
+    category: '体育',
+    tags: 'rust',
+    contentType: 'blog',
+  }, CATEGORIES);
+
+  assert.ok('errors' in result);
+  assert.equal(result.errors.length, 5);
+  assert.match(result.errors[2], /AI、安全、其他/);
+});
+
+test('validateEnrichment 拒绝非对象', () => {
+  assert.deepEqual(validateEnrichment([], CATEGORIES), { errors: ['需要返回 JSON 对象'] });
+  assert.deepEqual(validateEnrichment(null, CATEGORIES), { errors: ['需要返回 JSON 对象'] });
+});
+
+test('validateOverview 把文章编号转换为文章 ID，重复归类只保留第一个主题', () => {
+  const stories = [101, 102, 103, 104].map(story);
+  const result = validateOverview({
+    summary: ' 今天的导语 ',
+    themes: [
+      { name: '数据库', stories: [2, 1] },
+      { name: '安全', stories: [1, 3] },
+      { name: '其他', stories: [4, 4] },
+    ],
+  }, stories);
+
+  assert.deepEqual(result, {
+    value: {
+      summary: '今天的导语',
+      themes: [
+        { name: '数据库', storyIds: [101, 102] },
+        { name: '安全', storyIds: [103] },
+        { name: '其他', storyIds: [104] },
+      ],
+    },
+  });
+});
+
+test('validateOverview 拒绝越界编号和过少的主题', () => {
+  const stories = [101, 102, 103, 104].map(story);
+
+  const invalid = validateOverview({ summary: 's', themes: [{ name: 'a', stories: [0, 5, 1.5] }] }, stories);
+  assert.ok('errors' in invalid);
+  assert.match(invalid.errors[0], /编号无效: 0, 5, 1.5（应为 1 到 4）/);
+
+  const tooFew = validateOverview({ summary: 's', themes: [{ name: 'a', stories: [1, 2, 3, 4] }] }, stories);
+  assert.ok('errors' in tooFew);
+  assert.match(tooFew.errors[0], /需要 3 到 4 个主题，实际为 1 个/);
+});
+
+test('validateOverview 的主题数下限不超过文章数', () => {
+  const result = validateOverview({ summary: 's', themes: [{ name: 'a', stories: [1] }, { name: 'b', stories: [2] }] }, [1, 2].map(story));
+  assert.ok('value' in result);
+});
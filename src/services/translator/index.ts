@@ -2,135 +2,691 @@
  * Translator Service
  */
 
-import { DeepSeekProvider } from '../llm';
-import type { ChatMessage } from '../../types';
+import { createTaskProvider } from '../llm';
+import { cache, hashKey } from '../cache';
+import { parseJsonFromLLM } from '../../utils/json';
+import { estimateTokens, splitByTokens, truncateToTokens } from '../../utils/tokens';
+import { getLocale } from '../../locales';
+import type { LocaleDefinition } from '../../locales';
+import { prompts } from '../prompts';
+import type { PromptVariables, RenderedPrompt } from '../prompts';
+import { usage } from '../usage';
+import type { UsageScope, UsageTask } from '../usage';
+import { BudgetExceededError, CONTENT_TYPES } from '../../types';
+import type { ChatMessage, ContentType, DailyOverview, LLMConfig, LLMProvider, LLMTask, ProcessedStory, StoryEnrichment } from '../../types';
 
 export interface TranslatorConfig {
-  apiKey: string;
-  model?: string;
+  llm: LLMConfig;
+  // 标题批量翻译（默认开启）
+  titleBatch?: boolean;
+  // 超过该 token 数的文章分段摘要后再合并
+  chunkTokens?: number;
+  // 单篇文章参与摘要的 token 上限，超出部分丢弃
+  maxArticleTokens?: number;
 }
 
+export interface TitleItem {
+  id: number;
+  title: string;
+}
+
+export interface ContentItem {
+  // 用量按文章统计
+  storyId?: number;
+  content: string | null;
+  contentType?: ContentType;
+}
+
+export interface CommentItem {
+  storyId?: number;
+  comments: string;
+}
+
+export interface EnrichItem {
+  storyId?: number;
+  title: string;
+  content: string | null;
+  contentType: ContentType;
+}
+
+export interface LLMResult<T = string> {
+  value: T;
+  // 使用的提示词模板及版本，例如 summary-article@2+chunk@1+reduce@1
+  promptVersion: string;
+}
+
+// 各计费任务使用的模型
+const PROVIDER_TASKS: Record<UsageTask, LLMTask> = {
+  title: 'title',
+  content: 'content',
+  comment: 'comment',
+  enrichment: 'content',
+  overview: 'content',
+  digest: 'content',
+};
+
+// 结构化输出校验失败后的修复重试次数
+const JSON_REPAIR_RETRIES = 2;
+
+// 「今日看点」的主题数
+const OVERVIEW_MIN_THEMES = 3;
+const OVERVIEW_MAX_THEMES = 6;
+// 「今日看点」输入中每篇文章摘要的 token 上限
+const OVERVIEW_STORY_TOKENS = 150;
+
+const DEFAULT_CHUNK_TOKENS = 3000;
+const DEFAULT_MAX_ARTICLE_TOKENS = 24000;
+
 export class Translator {
-  private provider: DeepSeekProvider | null = null;
+  private providers: Record<LLMTask, LLMProvider> | null = null;
+  private titleBatch = true;
+  private chunkTokens = DEFAULT_CHUNK_TOKENS;
+  private maxArticleTokens = DEFAULT_MAX_ARTICLE_TOKENS;
 
   init(config: TranslatorConfig): void {
-    this.provider = new DeepSeekProvider(config.apiKey, config.model);
+    this.titleBatch = config.titleBatch ?? true;
+    this.chunkTokens = config.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+    this.maxArticleTokens = config.maxArticleTokens ?? DEFAULT_MAX_ARTICLE_TOKENS;
+    this.providers = {
+      title: createTaskProvider(config.llm, 'title'),
+      content: createTaskProvider(config.llm, 'content'),
+      comment: createTaskProvider(config.llm, 'comment'),
+    };
   }
 
   /**
-   * 批量翻译标题
+   * 渲染提示词模板，自动提供 locale 和 language 变量
    */
-  async translateTitles(titles: string[]): Promise<string[]> {
-    if (!this.provider) {
+  private prompt(locale: LocaleDefinition, name: string, variables: PromptVariables = {}): RenderedPrompt {
+    return prompts.render(locale.code, name, { locale: locale.code, language: locale.language, ...variables });
+  }
+
+  private getProvider(task: LLMTask): LLMProvider {
+    if (!this.providers) {
       throw new Error('Translator not initialized');
     }
+    return this.providers[task];
+  }
+
+  /**
+   * 调用 LLM 并返回文本结果，命中缓存时直接返回
+   *
+   * 缓存键由任务、Provider、模型、温度和完整消息内容的哈希组成，只缓存主 Provider 的结果；
+   * 用量记入 scope 对应的任务和文章，超出预算时抛出 BudgetExceededError
+   */
+  private async complete(
+    scope: UsageScope,
+    messages: ChatMessage[],
+    temperature: number = 0.3
+  ): Promise<string> {
+    const task = PROVIDER_TASKS[scope.task];
+    const provider = this.getProvider(task);
+    const cacheKey = [
+      task,
+      provider.getName(),
+      provider.getModel(),
+      String(temperature),
+      hashKey(...messages.map(m => `${m.role}:${m.content}`)),
+    ].join('|');
+
+    const cached = await cache.get<string>('llm', cacheKey);
+    if (cached !== null) {
+      usage.recordCached(scope);
+      return cached;
+    }
 
-    const results: string[] = [];
+    const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const reserved = usage.reserve(scope, provider.getName(), provider.getModel(), promptTokens);
+    try {
+      const response = await provider.chatCompletion(messages, temperature);
+      const content = response.content.trim();
+      const name = response.provider ?? provider.getName();
+      const model = response.model ?? provider.getModel();
+      // 未返回用量时按字数估算
+      usage.record(scope, name, model, {
+        promptTokens: response.usage?.prompt_tokens ?? promptTokens,
+        completionTokens: response.usage?.completion_tokens ?? estimateTokens(content),
+      });
+      // 备用 Provider 的结果不写入主 Provider 的缓存键，主 Provider 恢复后重新生成
+      if (name === provider.getName() && model === provider.getModel()) {
+        await cache.set('llm', cacheKey, content);
+      }
+      return content;
+    } finally {
+      usage.settle(reserved);
+    }
+  }
 
-    for (let i = 0; i < titles.length; i++) {
-      const title = titles[i];
-      console.log(`  [${i + 1}/${titles.length}] 翻译标题...`);
+  /**
+   * 批量翻译标题，失败的条目返回 null
+   *
+   * 批量模式下一次请求翻译全部标题，缺失或格式错误的条目逐条重试
+   */
+  async translateTitles(
+    items: TitleItem[],
+    locale: LocaleDefinition = getLocale()
+  ): Promise<(LLMResult | null)[]> {
+    if (!this.titleBatch || items.length <= 1) {
+      return this.translateTitlesOneByOne(items, locale);
+    }
+
+    console.log(`  批量翻译 ${items.length} 个标题...`);
 
+    let translated = new Map<number, LLMResult | null>();
+    try {
+      translated = await this.translateTitlesBatch(items, locale);
+    } catch (error) {
+      warnFailure('批量翻译失败，改为逐条翻译', error);
+    }
+
+    const missing = items.filter(item => !translated.has(item.id));
+    if (missing.length > 0 && translated.size > 0) {
+      console.warn(`  ⚠️  ${missing.length} 个标题未通过校验，逐条重试`);
+    }
+
+    const retried = await this.translateTitlesOneByOne(missing, locale);
+    missing.forEach((item, i) => translated.set(item.id, retried[i]));
+
+    return items.map(item => translated.get(item.id) ?? null);
+  }
+
+  private async translateTitlesBatch(items: TitleItem[], locale: LocaleDefinition): Promise<Map<number, LLMResult>> {
+    const system = this.prompt(locale, 'title-batch');
+    const raw = await this.complete({ task: 'title', storyIds: items.map(item => item.id) }, [
+      { role: 'system', content: system.text },
+      { role: 'user', content: JSON.stringify(items.map(item => ({ id: item.id, title: item.title }))) },
+    ]);
+
+    const parsed = parseJsonFromLLM<unknown>(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Batch translation result is not a JSON array');
+    }
+
+    const expectedIds = new Set(items.map(item => item.id));
+    const seen = new Set<number>();
+    const duplicated = new Set<number>();
+    const result = new Map<number, LLMResult>();
+
+    for (const entry of parsed) {
+      const id = Number((entry as { id?: unknown })?.id);
+      const title = (entry as { title?: unknown })?.title;
+
+      if (!expectedIds.has(id) || typeof title !== 'string' || !title.trim()) {
+        continue;
+      }
+      if (seen.has(id)) {
+        duplicated.add(id);
+        continue;
+      }
+      seen.add(id);
+      result.set(id, { value: title.trim(), promptVersion: system.ref });
+    }
+
+    // 同一 ID 出现多次时无法判断哪条可信，交给逐条重试
+    for (const id of duplicated) {
+      result.delete(id);
+    }
+
+    return result;
+  }
+
+  private async translateTitlesOneByOne(items: TitleItem[], locale: LocaleDefinition): Promise<(LLMResult | null)[]> {
+    let done = 0;
+
+    return Promise.all(items.map(async ({ id, title }) => {
       try {
-        const response = await this.provider.chatCompletion([
-          {
-            role: 'system',
-            content: '你是一个专业的技术翻译。请将用户提供的英文标题翻译成简洁的中文。只返回翻译结果。',
-          },
+        const system = this.prompt(locale, 'title');
+        const value = await this.complete({ task: 'title', storyIds: [id] }, [
+          { role: 'system', content: system.text },
           { role: 'user', content: title },
-        ], 0.3);
+        ]);
+        return { value, promptVersion: system.ref };
+      } catch (error) {
+        warnFailure('翻译失败', error);
+        return null;
+      } finally {
+        console.log(`  [${++done}/${items.length}] 翻译标题`);
+      }
+    }));
+  }
+
+  /**
+   * 批量摘要内容（按内容类型选择提示词），没有内容或失败的条目返回 null
+   *
+   * 各条目并发请求，并发和速率由 Provider 的限流器控制，结果保持输入顺序
+   */
+  async summarizeContents(
+    articles: ContentItem[],
+    maxLength: number = 300,
+    locale: LocaleDefinition = getLocale()
+  ): Promise<(LLMResult | null)[]> {
+    let done = 0;
 
-        results.push(response.content.trim());
+    return Promise.all(articles.map(async ({ storyId, content, contentType = 'article' }) => {
+      if (!content) {
+        return null;
+      }
+
+      try {
+        return await this.summarizeContent(content, contentType, maxLength, locale, storyScope('content', storyId));
       } catch (error) {
-        console.warn(`  ⚠️  翻译失败: ${error}`);
-        results.push(title);
+        warnFailure('摘要失败', error);
+        return null;
+      } finally {
+        console.log(`  [${++done}/${articles.length}] 生成内容摘要 (${contentType})`);
       }
+    }));
+  }
+
+  /**
+   * 摘要单篇内容
+   *
+   * 短文直接摘要；长文按 token 切分后逐段提炼要点（map），再合并为最终摘要（reduce）
+   */
+  private async summarizeContent(
+    content: string,
+    contentType: ContentType,
+    maxLength: number,
+    locale: LocaleDefinition,
+    scope: UsageScope
+  ): Promise<LLMResult> {
+    const capped = truncateToTokens(content, this.maxArticleTokens);
+    const summary = this.prompt(locale, `summary-${contentType}`, { maxLength });
+
+    if (estimateTokens(capped) <= this.chunkTokens) {
+      const value = await this.complete(scope, [
+        { role: 'system', content: summary.text },
+        { role: 'user', content: capped },
+      ]);
+      return { value, promptVersion: summary.ref };
     }
 
-    return results;
+    const refs = [summary.ref];
+    let notes = await this.summarizeChunks(splitByTokens(capped, this.chunkTokens), maxLength, locale, refs, scope);
+
+    // 分段要点合起来仍然过长时继续分组提炼
+    while (notes.length > 1 && estimateTokens(notes.join('\n\n')) > this.chunkTokens) {
+      const groups = splitByTokens(notes.join('\n\n'), this.chunkTokens);
+      if (groups.length >= notes.length) break;
+      notes = await this.summarizeChunks(groups, maxLength, locale, refs, scope);
+    }
+
+    const reduce = this.prompt(locale, 'reduce', { summaryPrompt: summary.text, maxLength });
+    const parts = notes.map((note, i) => `${this.prompt(locale, 'reduce-part', { index: i + 1 }).text}\n${note}`);
+    const value = await this.complete(scope, [
+      { role: 'system', content: reduce.text },
+      { role: 'user', content: parts.join('\n\n') },
+    ]);
+
+    return { value, promptVersion: [...refs, reduce.ref].join('+') };
   }
 
   /**
-   * 批量摘要内容
+   * 逐段提炼要点，失败的分段跳过，全部失败时抛出错误
    */
-  async summarizeContents(
-    contents: (string | null)[],
-    maxLength: number = 300
+  private async summarizeChunks(
+    chunks: string[],
+    maxLength: number,
+    locale: LocaleDefinition,
+    refs: string[],
+    scope: UsageScope
   ): Promise<string[]> {
-    if (!this.provider) {
-      throw new Error('Translator not initialized');
-    }
+    const notes = await Promise.all(chunks.map(async (chunk, i) => {
+      try {
+        const system = this.prompt(locale, 'chunk', { index: i + 1, total: chunks.length, maxLength });
+        if (!refs.includes(system.ref)) {
+          refs.push(system.ref);
+        }
+        return await this.complete(scope, [
+          { role: 'system', content: system.text },
+          { role: 'user', content: chunk },
+        ]);
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
+        console.warn(`  ⚠️  分段摘要失败 (${i + 1}/${chunks.length}): ${error}`);
+        return null;
+      }
+    }));
 
-    const results: string[] = [];
+    const succeeded = notes.filter((note): note is string => !!note);
+    if (succeeded.length === 0) {
+      throw new Error('All chunk summaries failed');
+    }
+    return succeeded;
+  }
 
-    for (let i = 0; i < contents.length; i++) {
-      const content = contents[i];
-      console.log(`  [${i + 1}/${contents.length}] 生成内容摘要...`);
+  /**
+   * 批量生成结构化信息（TL;DR、要点、分类、标签、内容类型）
+   *
+   * 输出不是合法 JSON 或未通过校验时，把错误反馈给模型要求修正；仍然失败的条目返回 null
+   */
+  async enrichStories(
+    items: EnrichItem[],
+    categories: string[],
+    locale: LocaleDefinition = getLocale()
+  ): Promise<(LLMResult<StoryEnrichment> | null)[]> {
+    let done = 0;
 
-      if (!content) {
-        results.push('暂无摘要');
-        continue;
+    return Promise.all(items.map(async item => {
+      try {
+        return await this.enrichStory(item, categories, locale);
+      } catch (error) {
+        warnFailure('结构化信息生成失败', error);
+        return null;
+      } finally {
+        console.log(`  [${++done}/${items.length}] 生成结构化信息`);
       }
+    }));
+  }
+
+  private async enrichStory(
+    item: EnrichItem,
+    categories: string[],
+    locale: LocaleDefinition
+  ): Promise<LLMResult<StoryEnrichment>> {
+    const system = this.prompt(locale, 'enrich', {
+      categories: categories.join(locale.listSeparator),
+      contentTypes: CONTENT_TYPES.join(' / '),
+    });
+    const input = this.prompt(locale, 'enrich-input', {
+      title: item.title,
+      contentType: item.contentType,
+      content: item.content
+        ? truncateToTokens(item.content, this.chunkTokens)
+        : this.prompt(locale, 'no-content').text,
+    });
+    return this.completeJson(
+      [system, input],
+      data => validateEnrichment(data, categories),
+      locale,
+      storyScope('enrichment', item.storyId)
+    );
+  }
 
+  /**
+   * 调用 LLM 获取 JSON 结果：输出不是合法 JSON 或未通过校验时，把错误反馈给模型要求修正
+   *
+   * input 为用户消息的模板或文本，修正次数用尽后抛出错误
+   */
+  private async completeJson<T>(
+    [system, input]: [RenderedPrompt, RenderedPrompt | string],
+    validate: (data: unknown) => { value: T } | { errors: string[] },
+    locale: LocaleDefinition,
+    scope: UsageScope
+  ): Promise<LLMResult<T>> {
+    const refs = [system.ref, ...(typeof input === 'string' ? [] : [input.ref])];
+    const messages: ChatMessage[] = [
+      { role: 'system', content: system.text },
+      { role: 'user', content: typeof input === 'string' ? input : input.text },
+    ];
+
+    for (let attempt = 0; ; attempt++) {
+      const raw = await this.complete(scope, messages, 0.2);
+
+      let errors: string[];
       try {
-        const response = await this.provider.chatCompletion([
-          {
-            role: 'system',
-            content: `你是内容摘要助手。请用中文总结文章内容，控制在${maxLength}字以内。只返回摘要内容。`,
-          },
-          { role: 'user', content: content.substring(0, 5000) },
-        ], 0.3);
-
-        results.push(response.content.trim());
+        const result = validate(parseJsonFromLLM<unknown>(raw));
+        if ('value' in result) {
+          return { value: result.value, promptVersion: refs.join('+') };
+        }
+        errors = result.errors;
       } catch (error) {
-        console.warn(`  ⚠️  摘要失败: ${error}`);
-        results.push('暂无摘要');
+        errors = [`不是合法的 JSON: ${error instanceof Error ? error.message : error}`];
       }
-    }
 
-    return results;
+      if (attempt >= JSON_REPAIR_RETRIES) {
+        throw new Error(`Invalid ${scope.task} output: ${errors.join('; ')}`);
+      }
+
+      const repair = this.prompt(locale, 'repair', { errors: errors.map(e => `- ${e}`).join('\n') });
+      if (!refs.includes(repair.ref)) {
+        refs.push(repair.ref);
+      }
+      messages.push(
+        { role: 'assistant', content: raw },
+        { role: 'user', content: repair.text }
+      );
+    }
   }
 
   /**
-   * 批量摘要评论
+   * 批量摘要评论，没有评论或失败的条目返回 null
    */
   async summarizeComments(
-    commentsBatch: string[],
-    maxLength: number = 300
-  ): Promise<(string | null)[]> {
-    if (!this.provider) {
-      throw new Error('Translator not initialized');
-    }
-
-    const results: (string | null)[] = [];
-
-    for (let i = 0; i < commentsBatch.length; i++) {
-      const comments = commentsBatch[i];
-      console.log(`  [${i + 1}/${commentsBatch.length}] 生成评论摘要...`);
+    items: CommentItem[],
+    maxLength: number = 300,
+    locale: LocaleDefinition = getLocale()
+  ): Promise<(LLMResult | null)[]> {
+    let done = 0;
 
+    return Promise.all(items.map(async ({ storyId, comments }) => {
       if (!comments || comments.trim().length === 0) {
-        results.push(null);
-        continue;
+        return null;
       }
 
       try {
-        const response = await this.provider.chatCompletion([
-          {
-            role: 'system',
-            content: `你是评论摘要助手。请用中文总结评论核心观点，控制在${maxLength}字以内。只返回摘要内容。`,
-          },
-          { role: 'user', content: comments.substring(0, 3000) },
-        ], 0.3);
-
-        results.push(response.content.trim());
+        const system = this.prompt(locale, 'comment', { maxLength });
+        const value = await this.complete(storyScope('comment', storyId), [
+          { role: 'system', content: system.text },
+          // 评论摘编已按预算截取
+          { role: 'user', content: comments },
+        ]);
+        return { value, promptVersion: system.ref };
       } catch (error) {
-        console.warn(`  ⚠️  评论摘要失败: ${error}`);
-        results.push(null);
+        warnFailure('评论摘要失败', error);
+        return null;
+      } finally {
+        console.log(`  [${++done}/${items.length}] 生成评论摘要`);
       }
+    }));
+  }
+
+  /**
+   * 「今日看点」：根据当天全部文章的标题和摘要生成导语，并把文章归为几个主题；失败时返回 null
+   */
+  async writeDailyOverview(
+    stories: ProcessedStory[],
+    maxLength: number = 200,
+    locale: LocaleDefinition = getLocale()
+  ): Promise<LLMResult<Pick<DailyOverview, 'summary' | 'themes'>> | null> {
+    const system = this.prompt(locale, 'overview', {
+      maxLength,
+      minThemes: Math.min(OVERVIEW_MIN_THEMES, stories.length),
+      maxThemes: Math.min(OVERVIEW_MAX_THEMES, stories.length),
+    });
+    const input = stories
+      .map((story, i) => {
+        const summary = (story.tldr || story.description).replace(/\s+/g, ' ');
+        return `[${i + 1}] ${story.titleChinese}\n${truncateToTokens(summary, OVERVIEW_STORY_TOKENS)}`;
+      })
+      .join('\n\n');
+
+    try {
+      return await this.completeJson(
+        [system, input],
+        data => validateOverview(data, stories),
+        locale,
+        { task: 'overview' }
+      );
+    } catch (error) {
+      warnFailure('今日看点生成失败', error);
+      return null;
+    }
+  }
+
+  /**
+   * 周报 / 月报的编者按，失败时返回 null
+   */
+  async writeDigestOverview(
+    input: string,
+    days: number,
+    maxLength: number,
+    locale: LocaleDefinition = getLocale()
+  ): Promise<LLMResult | null> {
+    try {
+      const system = this.prompt(locale, 'digest', { days, maxLength });
+      const value = await this.complete({ task: 'digest' }, [
+        { role: 'system', content: system.text },
+        { role: 'user', content: input },
+      ]);
+      return { value, promptVersion: system.ref };
+    } catch (error) {
+      warnFailure('编者按生成失败', error);
+      return null;
     }
+  }
+}
+
+/**
+ * 单篇文章的计费范围
+ */
+function storyScope(task: UsageTask, storyId?: number): UsageScope {
+  return { task, storyIds: storyId === undefined ? [] : [storyId] };
+}
+
+/**
+ * 输出失败原因；超出预算的请求已由用量统计提示过一次，不再逐条输出
+ */
+function warnFailure(label: string, error: unknown): void {
+  if (!(error instanceof BudgetExceededError)) {
+    console.warn(`  ⚠️  ${label}: ${error}`);
+  }
+}
 
-    return results;
+/**
+ * 指定语言需要的提示词模板
+ */
+export function requiredPromptNames(locale: LocaleDefinition): string[] {
+  return [
+    ...(locale.translateTitles ? ['title', 'title-batch'] : []),
+    ...CONTENT_TYPES.map(type => `summary-${type}`),
+    'chunk',
+    'reduce',
+    'reduce-part',
+    ...(locale.summaryOnly ? [] : ['comment', 'enrich', 'enrich-input', 'no-content', 'repair']),
+  ];
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
   }
+  return value
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 校验结构化输出，返回规范化结果或错误列表
+ */
+export function validateEnrichment(
+  data: unknown,
+  categories: string[]
+): { value: StoryEnrichment } | { errors: string[] } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['需要返回 JSON 对象'] };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const tldr = typeof input.tldr === 'string' ? input.tldr.trim() : '';
+  if (!tldr) {
+    errors.push('tldr 必须是非空字符串');
+  }
+
+  const keyPoints = toStringList(input.keyPoints);
+  if (!keyPoints || keyPoints.length < 3) {
+    errors.push('keyPoints 必须是包含 3 到 5 条要点的字符串数组');
+  }
+
+  // 分类名称忽略大小写匹配，统一为配置中的写法
+  const category = categories.find(c =>
+    typeof input.category === 'string' && c.toLowerCase() === input.category.trim().toLowerCase()
+  );
+  if (!category) {
+    errors.push(`category 必须是以下之一：${categories.join('、')}`);
+  }
+
+  const tags = toStringList(input.tags);
+  if (!tags) {
+    errors.push('tags 必须是字符串数组');
+  }
+
+  const contentType = CONTENT_TYPES.find(t => t === input.contentType);
+  if (!contentType) {
+    errors.push(`contentType 必须是以下之一：${CONTENT_TYPES.join(' / ')}`);
+  }
+
+  if (errors.length > 0 || !keyPoints || !category || !tags || !contentType) {
+    return { errors };
+  }
+
+  return {
+    value: {
+      tldr,
+      keyPoints: keyPoints.slice(0, 5),
+      category,
+      tags: [...new Set(tags)].slice(0, 6),
+      contentType,
+    },
+  };
+}
+
+/**
+ * 校验「今日看点」输出，文章编号转换为文章 ID
+ */
+export function validateOverview(
+  data: unknown,
+  stories: ProcessedStory[]
+): { value: Pick<DailyOverview, 'summary' | 'themes'> } | { errors: string[] } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: ['需要返回 JSON 对象'] };
+  }
+
+  const input = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const summary = typeof input.summary === 'string' ? input.summary.trim() : '';
+  if (!summary) {
+    errors.push('summary 不能为空');
+  }
+
+  const minThemes = Math.min(OVERVIEW_MIN_THEMES, stories.length);
+  const maxThemes = Math.min(OVERVIEW_MAX_THEMES, stories.length);
+  const themes: DailyOverview['themes'] = [];
+  if (!Array.isArray(input.themes)) {
+    errors.push('themes 需要是数组');
+  } else {
+    const assigned = new Set<number>();
+    for (const [i, theme] of input.themes.entries()) {
+      const name = typeof theme?.name === 'string' ? theme.name.trim() : '';
+      const numbers = Array.isArray(theme?.stories) ? theme.stories : null;
+      if (!name || !numbers) {
+        errors.push(`themes[${i}] 需要包含 name 和 stories`);
+        continue;
+      }
+      const invalid = numbers.filter((n: unknown) => !Number.isInteger(n) || (n as number) < 1 || (n as number) > stories.length);
+      if (invalid.length > 0) {
+        errors.push(`themes[${i}].stories 中的编号无效: ${invalid.join(', ')}（应为 1 到 ${stories.length}）`);
+        continue;
+      }
+      // 重复归类的文章只保留在第一个主题中
+      const indexes = [...new Set(numbers as number[])].filter(n => !assigned.has(n)).sort((a, b) => a - b);
+      indexes.forEach(n => assigned.add(n));
+      if (indexes.length > 0) {
+        themes.push({ name, storyIds: indexes.map(n => stories[n - 1].storyId) });
+      }
+    }
+    if (errors.length === 0 && (themes.length < minThemes || themes.length > maxThemes)) {
+      errors.push(`themes 需要 ${minThemes} 到 ${maxThemes} 个主题，实际为 ${themes.length} 个`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value: { summary, themes } };
 }
 
 export const translator = new Translator();
\ No newline at end of file
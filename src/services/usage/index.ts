@@ -0,0 +1,335 @@
+/**
+ * LLM 用量与费用
+ *
+ * 按任务和文章汇总 token 用量，按价格表折算费用。设置预算后，费用接近预算时跳过可选任务
+ * （评论摘要、结构化信息、今日看点），将超出预算时不再发出新的请求
+ */
+
+import { BudgetExceededError } from '../../types';
+
+// 计费任务：LLM 阶段的标题、摘要、评论、结构化信息，以及今日看点和周报 / 月报编者按
+export type UsageTask = 'title' | 'content' | 'comment' | 'enrichment' | 'overview' | 'digest';
+
+const TASK_LABELS: Record<UsageTask, string> = {
+  title: '标题翻译',
+  content: '内容摘要',
+  comment: '评论摘要',
+  enrichment: '结构化信息',
+  overview: '今日看点',
+  digest: '编者按',
+};
+
+// 费用达到预算的该比例后跳过可选任务
+const OPTIONAL_BUDGET_RATIO = 0.8;
+const OPTIONAL_TASKS: UsageTask[] = ['comment', 'enrichment', 'overview'];
+
+// 预估费用时假定的输出 token 数（实际用量在响应后结算）
+const ESTIMATED_COMPLETION_TOKENS = 500;
+
+// 汇总中列出的文章数
+const TOP_STORIES = 5;
+
+// 每百万 token 的价格
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageConfig {
+  // 键为 provider/model 或 provider（该 Provider 的全部模型）
+  prices: Record<string, ModelPrice>;
+  // 每个日期的费用上限（包括此前中断或重跑的运行），未设置时不限制
+  budget?: number;
+}
+
+export interface UsageScope {
+  task: UsageTask;
+  // 请求涉及的文章，今日看点等不针对单篇文章的请求为空
+  storyIds?: number[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageTotals {
+  // 实际发出的请求数
+  calls: number;
+  // 命中缓存的请求数（不产生费用）
+  cached: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // 没有价格的请求数（费用按 0 计）
+  unpriced: number;
+}
+
+export interface UsageReport {
+  budget?: number;
+  // 因预算跳过的请求数
+  skipped: Partial<Record<UsageTask, number>>;
+  total: UsageTotals;
+  tasks: Partial<Record<UsageTask, UsageTotals>>;
+  // 键为 provider/model
+  models: Record<string, UsageTotals>;
+  // 键为文章 ID；涉及多篇文章的请求（标题批量翻译）平均分摊
+  stories: Record<string, UsageTotals>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cached: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function emptyReport(budget?: number): UsageReport {
+  return { budget, skipped: {}, total: emptyTotals(), tasks: {}, models: {}, stories: {} };
+}
+
+function addTotals(target: UsageTotals, entry: UsageTotals): UsageTotals {
+  target.calls += entry.calls;
+  target.cached += entry.cached;
+  target.promptTokens += entry.promptTokens;
+  target.completionTokens += entry.completionTokens;
+  target.cost += entry.cost;
+  target.unpriced += entry.unpriced;
+  return target;
+}
+
+function mergeTotalsMap<K extends string>(
+  target: Partial<Record<K, UsageTotals>>,
+  source: Partial<Record<K, UsageTotals>>
+): void {
+  for (const [key, entry] of Object.entries(source) as [K, UsageTotals][]) {
+    target[key] = addTotals(target[key] ?? emptyTotals(), entry);
+  }
+}
+
+/**
+ * 查找模型价格：先匹配 provider/model，再匹配 provider
+ */
+export function findPrice(prices: Record<string, ModelPrice>, provider: string, model: string): ModelPrice | undefined {
+  return prices[`${provider}/${model}`.toLowerCase()] ?? prices[provider.toLowerCase()];
+}
+
+export function computeCost(price: ModelPrice, usage: TokenUsage): number {
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export class UsageTracker {
+  private config: UsageConfig = { prices: {} };
+  private report = emptyReport();
+  // 已发出、尚未结算的请求的预估费用
+  private pending = 0;
+  // 已提示过超出预算的任务
+  private warned = new Set<UsageTask>();
+  // 同一日期此前的运行已产生的费用，计入预算
+  private previousCost = 0;
+
+  /**
+   * 设置价格表和预算，并清空此前的统计（每次运行开始时调用）
+   *
+   * previousCost 为同一日期此前运行的费用（断点续跑时从 run 目录读取）
+   */
+  init(config: UsageConfig, previousCost = 0): void {
+    this.config = config;
+    this.report = emptyReport(config.budget);
+    this.pending = 0;
+    this.warned.clear();
+    this.previousCost = previousCost;
+  }
+
+  /**
+   * 发出请求前检查预算，返回预估费用（请求结束后传给 settle）
+   *
+   * 已用和进行中的费用加上本次预估超出限额时抛出 BudgetExceededError：
+   * 可选任务的限额为预算的 80%，其他任务为预算本身
+   */
+  reserve(scope: UsageScope, provider: string, model: string, promptTokens: number): number {
+    const price = findPrice(this.config.prices, provider, model);
+    const estimate = price ? computeCost(price, { promptTokens, completionTokens: ESTIMATED_COMPLETION_TOKENS }) : 0;
+    const { budget } = this.config;
+    if (budget === undefined) {
+      return 0;
+    }
+
+    const spent = this.previousCost + this.report.total.cost;
+    const optional = OPTIONAL_TASKS.includes(scope.task);
+    if (spent + this.pending + estimate > (optional ? budget * OPTIONAL_BUDGET_RATIO : budget)) {
+      this.report.skipped[scope.task] = (this.report.skipped[scope.task] ?? 0) + 1;
+      const message = `LLM 费用${optional ? '接近' : '将超出'}预算（已用 ${formatCost(spent)}，进行中预估 ${formatCost(this.pending)}，预算 ${formatCost(budget)}），跳过${TASK_LABELS[scope.task]}`;
+      if (!this.warned.has(scope.task)) {
+        this.warned.add(scope.task);
+        console.warn(`  ⚠️  ${message}`);
+      }
+      throw new BudgetExceededError(message);
+    }
+
+    this.pending += estimate;
+    return estimate;
+  }
+
+  /**
+   * 请求结束（成功或失败）后释放预估费用
+   */
+  settle(reserved: number): void {
+    this.pending = Math.max(0, this.pending - reserved);
+  }
+
+  /**
+   * 记录一次实际请求的用量
+   */
+  record(scope: UsageScope, provider: string, model: string, usage: TokenUsage): void {
+    const price = findPrice(this.config.prices, provider, model);
+    this.add(scope, `${provider}/${model}`, {
+      ...emptyTotals(),
+      calls: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: price ? computeCost(price, usage) : 0,
+      unpriced: price ? 0 : 1,
+    });
+  }
+
+  /**
+   * 记录一次命中缓存的请求
+   */
+  recordCached(scope: UsageScope): void {
+    this.add(scope, null, { ...emptyTotals(), cached: 1 });
+  }
+
+  getReport(): UsageReport {
+    return mergeUsageReports(emptyReport(this.report.budget), this.report);
+  }
+
+  private add(scope: UsageScope, model: string | null, entry: UsageTotals): void {
+    const { report } = this;
+    addTotals(report.total, entry);
+    report.tasks[scope.task] = addTotals(report.tasks[scope.task] ?? emptyTotals(), entry);
+    if (model) {
+      report.models[model] = addTotals(report.models[model] ?? emptyTotals(), entry);
+    }
+
+    const storyIds = scope.storyIds ?? [];
+    const share = 1 / storyIds.length;
+    for (const id of storyIds) {
+      report.stories[id] = addTotals(report.stories[id] ?? emptyTotals(), {
+        ...entry,
+        promptTokens: Math.round(entry.promptTokens * share),
+        completionTokens: Math.round(entry.completionTokens * share),
+        cost: entry.cost * share,
+      });
+    }
+  }
+}
+
+/**
+ * 合并两份报告（同一日期的多次运行），预算取后者
+ */
+export function mergeUsageReports(a: UsageReport, b: UsageReport): UsageReport {
+  const merged = emptyReport(b.budget ?? a.budget);
+  for (const report of [a, b]) {
+    addTotals(merged.total, report.total);
+    mergeTotalsMap(merged.tasks, report.tasks);
+    mergeTotalsMap(merged.models, report.models);
+    mergeTotalsMap(merged.stories, report.stories);
+    for (const [task, count] of Object.entries(report.skipped) as [UsageTask, number][]) {
+      merged.skipped[task] = (merged.skipped[task] ?? 0) + count;
+    }
+  }
+  return merged;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const parts = [
+    `${totals.calls} 次请求${totals.cached > 0 ? `（另有 ${totals.cached} 次命中缓存）` : ''}`,
+    `${totals.promptTokens.toLocaleString('en-US')} + ${totals.completionTokens.toLocaleString('en-US')} tokens`,
+    formatCost(totals.cost),
+  ];
+  if (totals.unpriced > 0) {
+    parts.push(`${totals.unpriced} 次请求缺少价格`);
+  }
+  return parts.join(' | ');
+}
+
+/**
+ * 格式化用量报告：合计与预算、各任务、各模型、费用最高的几篇文章、因预算跳过的请求
+ */
+export function formatUsageReport(report: UsageReport): string[] {
+  const lines = [`合计: ${formatTotals(report.total)}`];
+  if (report.budget !== undefined) {
+    lines.push(`预算: 每个日期 ${formatCost(report.budget)}`);
+  }
+
+  for (const [task, totals] of Object.entries(report.tasks) as [UsageTask, UsageTotals][]) {
+    lines.push(`${TASK_LABELS[task]}: ${formatTotals(totals)}`);
+  }
+  for (const [model, totals] of Object.entries(report.models)) {
+    lines.push(`${model}: ${formatTotals(totals)}`);
+  }
+
+  const stories = Object.entries(report.stories)
+    .filter(([, totals]) => totals.cost > 0)
+    .sort(([, a], [, b]) => b.cost - a.cost)
+    .slice(0, TOP_STORIES);
+  if (stories.length > 0) {
+    lines.push(`费用最高: ${stories.map(([id, totals]) => `#${id} ${formatCost(totals.cost)}`).join(', ')}`);
+  }
+
+  const skipped = Object.entries(report.skipped) as [UsageTask, number][];
+  if (skipped.length > 0) {
+    lines.push(`超出预算跳过: ${skipped.map(([task, count]) => `${TASK_LABELS[task]} ${count} 次`).join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * 解析价格表，格式为 provider/model=输入价格/输出价格（每百万 token），多项以逗号分隔
+ *
+ * 格式错误的项价格为 NaN，由 validateUsageConfig 报错
+ */
+export function parsePrices(value: string): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const item of value.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    // 模型名可能包含 / 和 :（例如 qwen2.5:7b），以最后一个 = 分隔
+    const index = item.lastIndexOf('=');
+    const [input, output, ...rest] = index > 0 ? item.slice(index + 1).split('/') : [];
+    const valid = input !== undefined && output !== undefined && rest.length === 0;
+    prices[(index > 0 ? item.slice(0, index) : item).trim().toLowerCase()] = {
+      input: valid && input.trim() ? Number(input) : NaN,
+      output: valid && output.trim() ? Number(output) : NaN,
+    };
+  }
+  return prices;
+}
+
+/**
+ * 检查价格表和预算；设置预算时要求所有使用中的模型都有价格
+ */
+export function validateUsageConfig(
+  config: UsageConfig,
+  models: Array<{ provider: string; model: string }>
+): string[] {
+  const errors: string[] = [];
+  for (const [key, price] of Object.entries(config.prices)) {
+    if (![price.input, price.output].every(n => Number.isFinite(n) && n >= 0)) {
+      errors.push(`LLM_PRICES 中 "${key}" 的价格无效（格式为 provider/model=输入价格/输出价格）`);
+    }
+  }
+
+  if (config.budget !== undefined) {
+    if (!Number.isFinite(config.budget) || config.budget <= 0) {
+      errors.push(`LLM_BUDGET 需要是正数: ${config.budget}`);
+    }
+    const unpriced = models.filter(({ provider, model }) => !findPrice(config.prices, provider, model));
+    if (unpriced.length > 0) {
+      errors.push(`设置了 LLM_BUDGET，但 LLM_PRICES 中缺少 ${unpriced.map(({ provider, model }) => `${provider}/${model}`).join(', ')} 的价格`);
+    }
+  }
+  return errors;
+}
+
+export const usage = new UsageTracker();
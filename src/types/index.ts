@@ -2,11 +2,22 @@
  * 类型定义
  */
 
+// 内容来源
+export type ArticleFetcherName = 'jina' | 'local' | 'hn' | 'pdf' | 'github' | 'video';
+
+// 内容类型（决定爬取方式和摘要提示词）
+export type ContentType = 'article' | 'ask' | 'show' | 'launch' | 'tell' | 'pdf' | 'github' | 'video';
+
+export const CONTENT_TYPES: ContentType[] = ['article', 'ask', 'show', 'launch', 'tell', 'pdf', 'github', 'video'];
+
 // 文章元数据
 export interface ArticleMetadata {
   url: string;
   description: string | null;
   fullContent: string | null;
+  // 产出内容的爬取方式，全部失败时为 null
+  fetcher: ArticleFetcherName | null;
+  contentType: ContentType;
 }
 
 // LLM 相关类型
@@ -17,6 +28,9 @@ export interface ChatMessage {
 
 export interface ChatCompletionResponse {
   content: string;
+  // 实际响应的 Provider 和模型（主备切换后为备用 Provider）
+  provider?: string;
+  model?: string;
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
@@ -30,6 +44,22 @@ export interface LLMProvider {
   chatCompletion(messages: ChatMessage[], temperature?: number): Promise<ChatCompletionResponse>;
 }
 
+// LLM 任务类型（用于按任务选择模型）
+export type LLMTask = 'title' | 'content' | 'comment';
+
+export interface LLMProviderConfig {
+  provider: string;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+export interface LLMConfig {
+  primary: LLMProviderConfig;
+  fallback?: LLMProviderConfig;
+  taskModels: Partial<Record<LLMTask, string>>;
+}
+
 // 错误类型
 export class LLMError extends Error {
   constructor(message: string) {
@@ -38,10 +68,45 @@ export class LLMError extends Error {
   }
 }
 
+// 超出本次运行的 LLM 费用预算，调用未发出
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+export interface FetchErrorDetails {
+  status?: number;
+  body?: string;
+  attempts?: number;
+  timedOut?: boolean;
+}
+
 export class FetchError extends Error {
-  constructor(message: string, status?: number) {
+  // HTTP 状态码（网络错误/超时时为 undefined）
+  readonly status?: number;
+  // 响应体片段
+  readonly body?: string;
+  // 实际请求次数（含重试）
+  readonly attempts: number;
+  // 是否因超时失败
+  readonly timedOut: boolean;
+
+  constructor(message: string, details: FetchErrorDetails = {}) {
     super(message);
     this.name = 'FetchError';
+    this.status = details.status;
+    this.body = details.body;
+    this.attempts = details.attempts ?? 1;
+    this.timedOut = details.timedOut ?? false;
   }
 }
 
@@ -54,6 +119,32 @@ export interface Story {
   time: number;
   by: string;
   descendants?: number;
+  // Ask/Show/Launch HN 等帖子的正文（已去除 HTML）
+  text?: string;
+  // 同一天内链接相同、已合并到本条的其他 HN 帖子
+  mergedIds?: number[];
+  // 此前已发布过（首次发布日期），不再入选，只在「仍在热议」中列出
+  previouslyPublished?: string;
+  // 选择策略计算的得分和入选原因
+  selection?: StorySelection;
+}
+
+export interface StorySelection {
+  score: number;
+  reason: string;
+}
+
+// 评论树节点（文本已去除 HTML）
+export interface CommentNode {
+  id: number;
+  author: string;
+  text: string;
+  time: number;
+  // 层级，顶层评论为 0
+  depth: number;
+  // 子孙评论总数
+  replyCount: number;
+  children: CommentNode[];
 }
 
 // 处理后的文章
@@ -61,11 +152,59 @@ export interface ProcessedStory {
   rank: number;
   storyId: number;
   titleEnglish: string;
+  // 目标语言的标题（字段名沿用最初只有中文时的命名）
   titleChinese: string;
   url: string;
   score: number;
+  // HN 评论数（旧的 checkpoint 中没有该字段）
+  commentCount?: number;
   time: string;
   timestamp: number;
   description: string;
   commentSummary: string | null;
+  contentType?: ContentType;
+  // 输出语言
+  locale: string;
+  // 结构化信息（旧的 checkpoint 中没有这些字段）
+  tldr?: string;
+  keyPoints?: string[];
+  category?: string;
+  tags?: string[];
+  // 入选时的得分和原因
+  selection?: StorySelection;
+  // 各字段使用的提示词模板版本，用于比较提示词修改前后的输出
+  promptVersions?: PromptVersions;
+}
+
+export interface PromptVersions {
+  title?: string;
+  description?: string;
+  commentSummary?: string;
+  enrichment?: string;
+}
+
+/**
+ * LLM 返回的单篇文章结构化信息
+ */
+export interface StoryEnrichment {
+  tldr: string;
+  keyPoints: string[];
+  category: string;
+  tags: string[];
+  contentType: ContentType;
+}
+
+// 当天的「今日看点」导语和主题分组
+export interface DailyOverview {
+  locale: string;
+  summary: string;
+  themes: OverviewTheme[];
+  // 使用的提示词模板及版本
+  promptVersion: string;
+}
+
+export interface OverviewTheme {
+  name: string;
+  // 按当天排名排序
+  storyIds: number[];
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * 时区日期边界测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, getDateRange, getDayBoundaries, getPreviousDate, isValidDateString } from './date';
+
+const utcSeconds = (...args: [number, number, number, number?, number?]) => Date.UTC(...args) / 1000;
+
+test('UTC 日期边界为当天 00:00:00 到 23:59:59', () => {
+  assert.deepEqual(getDayBoundaries('2024-01-01'), {
+    start: utcSeconds(2024, 0, 1),
+    end: utcSeconds(2024, 0, 2) - 1,
+  });
+});
+
+test('按时区的本地午夜切分', () => {
+  // 北京时间 00:00 为前一天 16:00 UTC
+  assert.deepEqual(getDayBoundaries('2024-01-01', 'Asia/Shanghai'), {
+    start: utcSeconds(2023, 11, 31, 16),
+    end: utcSeconds(2024, 0, 1, 16) - 1,
+  });
+  // 半小时时差
+  assert.equal(getDayBoundaries('2024-06-01', 'Asia/Kolkata').start, utcSeconds(2024, 4, 31, 18, 30));
+});
+
+test('夏令时切换日的长度为 23 或 25 小时', () => {
+  const spring = getDayBoundaries('2024-03-10', 'America/New_York');
+  assert.equal(spring.start, utcSeconds(2024, 2, 10, 5));
+  assert.equal(spring.end - spring.start + 1, 23 * 3600);
+
+  const fall = getDayBoundaries('2024-11-03', 'America/New_York');
+  assert.equal(fall.start, utcSeconds(2024, 10, 3, 4));
+  assert.equal(fall.end - fall.start + 1, 25 * 3600);
+});
+
+test('相邻日期的边界首尾相接', () => {
+  const today = getDayBoundaries('2024-10-27', 'Europe/Berlin');
+  const tomorrow = getDayBoundaries('2024-10-28', 'Europe/Berlin');
+  assert.equal(tomorrow.start, today.end + 1);
+});
+
+test('前一天按时区计算', () => {
+  const now = new Date(Date.UTC(2024, 0, 1, 20));
+  assert.equal(getPreviousDate('UTC', now), '2023-12-31');
+  // 此时北京时间已是 1 月 2 日
+  assert.equal(getPreviousDate('Asia/Shanghai', now), '2024-01-01');
+});
+
+test('日期加减与区间跨越月末和闰日', () => {
+  assert.equal(addDays('2024-02-28', 1), '2024-02-29');
+  assert.equal(addDays('2024-03-01', -1), '2024-02-29');
+  assert.deepEqual(getDateRange('2023-12-30', '2024-01-02'), ['2023-12-30', '2023-12-31', '2024-01-01', '2024-01-02']);
+  assert.deepEqual(getDateRange('2024-01-02', '2024-01-01'), []);
+});
+
+test('校验日期字符串', () => {
+  assert.ok(isValidDateString('2024-02-29'));
+  assert.ok(!isValidDateString('2023-02-29'));
+  assert.ok(!isValidDateString('2024-1-01'));
+});
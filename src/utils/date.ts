@@ -1,26 +1,140 @@
 /**
  * 日期工具函数
+ *
+ * 日期字符串统一为 YYYY-MM-DD，时区使用 IANA 名称（如 Asia/Shanghai）
  */
 
+const DAY_MS = 86400 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * 指定时刻在时区中相对 UTC 的偏移（毫秒）
+ */
+function getTimezoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 时区中某日 00:00 对应的 UTC 时间戳（毫秒）
+ */
+function zonedMidnight(dateStr: string, timeZone: string): number {
+  const guess = parseDateString(dateStr).getTime();
+  const first = guess - getTimezoneOffset(new Date(guess), timeZone);
+  // 夏令时切换日再校正一次
+  return guess - getTimezoneOffset(new Date(first), timeZone);
+}
+
+/**
+ * 校验时区名称
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 格式化日期为 YYYY-MM-DD（默认 UTC）
+ */
+export function formatDateForDisplay(date: Date, timeZone: string = 'UTC'): string {
+  if (timeZone === 'UTC') {
+    return date.toISOString().split('T')[0];
+  }
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * 把 YYYY-MM-DD 解析为当日 00:00 UTC 的 Date
+ */
+export function parseDateString(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00Z`);
+}
+
 /**
- * 格式化日期为 YYYY-MM-DD
+ * 日期加减天数
  */
-export function formatDateForDisplay(date: Date): string {
-  return date.toISOString().split('T')[0];
+export function addDays(dateStr: string, days: number): string {
+  return formatDateForDisplay(new Date(parseDateString(dateStr).getTime() + days * DAY_MS));
 }
 
 /**
- * 获取前一天的起止时间戳（UTC）
+ * 生成 [from, to] 闭区间内的日期列表
  */
-export function getPreviousDayBoundaries(): { start: number; end: number } {
-  const now = new Date();
-  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
-  
-  // 前一天 00:00:00 UTC
-  const start = Math.floor(today.getTime() / 1000) - 86400;
-  
-  // 前一天 23:59:59 UTC
-  const end = Math.floor(today.getTime() / 1000) - 1;
-  
+export function getDateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
+
+/**
+ * 校验 YYYY-MM-DD 格式的日期字符串
+ */
+export function isValidDateString(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = parseDateString(value);
+  return !Number.isNaN(date.getTime()) && formatDateForDisplay(date) === value;
+}
+
+/**
+ * 获取指定日期在指定时区的起止时间戳（秒）
+ */
+export function getDayBoundaries(
+  dateStr: string,
+  timeZone: string = 'UTC'
+): { start: number; end: number } {
+  const start = Math.floor(zonedMidnight(dateStr, timeZone) / 1000);
+  // 夏令时切换日不一定是 24 小时，取下一日 00:00 前一秒
+  const end = Math.floor(zonedMidnight(addDays(dateStr, 1), timeZone) / 1000) - 1;
   return { start, end };
 }
+
+/**
+ * 指定时区中的前一天（YYYY-MM-DD）
+ */
+export function getPreviousDate(timeZone: string = 'UTC', now: Date = new Date()): string {
+  return addDays(formatDateForDisplay(now, timeZone), -1);
+}
+
+/**
+ * 获取前一天的起止时间戳（默认 UTC）
+ */
+export function getPreviousDayBoundaries(timeZone: string = 'UTC'): { start: number; end: number } {
+  return getDayBoundaries(getPreviousDate(timeZone), timeZone);
+}
@@ -1,80 +1,301 @@
 /**
  * HTTP Fetch 工具
+ *
+ * 支持超时、指数退避重试（带抖动）以及 Retry-After。超时覆盖整个请求，包括读取响应体
  */
 
+import { FetchError } from '../types';
+
+export { FetchError };
+
+export interface RetryOptions {
+  // 最大重试次数（不含首次请求）
+  retries?: number;
+  // 退避基础延迟（毫秒）
+  minDelay?: number;
+  // 单次等待上限（毫秒），Retry-After 超过该值时不再重试
+  maxDelay?: number;
+  // 需要重试的 HTTP 状态码；非幂等请求未指定时只重试 NON_IDEMPOTENT_RETRY_ON
+  retryOn?: number[];
+}
+
 export interface FetchOptions {
   headers?: Record<string, string>;
   timeout?: number;
+  retry?: RetryOptions | false;
+  // 是否视为幂等请求；默认 GET/HEAD/PUT/DELETE 为幂等，POST/PATCH 不是
+  idempotent?: boolean;
+}
+
+interface RequestInit {
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
 }
 
-export class FetchError extends Error {
-  constructor(message: string, status?: number) {
-    super(message);
-    this.name = 'FetchError';
+const DEFAULT_TIMEOUT = 30000;
+const BODY_SNIPPET_LENGTH = 500;
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 2,
+  minDelay: 500,
+  maxDelay: 30000,
+  retryOn: [408, 425, 429, 500, 502, 503, 504],
+};
+
+// 非幂等请求只在服务端明确未处理时重试
+const NON_IDEMPOTENT_RETRY_ON = [429, 503];
+
+// 限流和服务端错误，适用于重复执行没有副作用、但不应在网络错误或超时后重发的请求
+export const SERVER_ERROR_RETRY_ON = [429, 500, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+// 响应体读取完成前仍在计时的超时定时器
+const bodyTimers = new WeakMap<Response, { timeoutId: NodeJS.Timeout; timeout: number }>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期），返回毫秒
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
   }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
 }
 
-export async function post<T>(
+/**
+ * 指数退避 + 抖动
+ */
+function backoffDelay(attempt: number, retry: Required<RetryOptions>): number {
+  const exp = Math.min(retry.maxDelay, retry.minDelay * 2 ** (attempt - 1));
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+async function readSnippet(response: Response): Promise<string | undefined> {
+  try {
+    const text = await readBody(response, r => r.text());
+    return text.substring(0, BODY_SNIPPET_LENGTH);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 读取响应体，读取期间请求的超时仍然有效；超时时抛出 FetchError
+ */
+export async function readBody<T>(response: Response, read: (response: Response) => Promise<T>): Promise<T> {
+  const timer = bodyTimers.get(response);
+  try {
+    return await read(response);
+  } catch (error) {
+    if (timer && error instanceof Error && error.name === 'AbortError') {
+      throw new FetchError(`Timeout after ${timer.timeout}ms while reading body`, { status: response.status, timedOut: true });
+    }
+    throw error;
+  } finally {
+    if (timer) {
+      clearTimeout(timer.timeoutId);
+      bodyTimers.delete(response);
+    }
+  }
+}
+
+/**
+ * 发送请求，遇到瞬时错误时按策略重试；非 2xx 最终抛出 FetchError
+ */
+export async function request(
   url: string,
-  body: any,
+  init: RequestInit,
   options: FetchOptions = {}
-): Promise<{ data: T }> {
-  const controller = new AbortController();
-  const timeout = options.timeout || 30000;
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+): Promise<Response> {
+  const retry: Required<RetryOptions> = options.retry === false
+    ? { ...DEFAULT_RETRY, retries: 0 }
+    : { ...DEFAULT_RETRY, ...options.retry };
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(init.method);
+  const retryOn = idempotent || (options.retry && options.retry.retryOn)
+    ? retry.retryOn
+    : retry.retryOn.filter(status => NON_IDEMPOTENT_RETRY_ON.includes(status));
+  const timeout = options.timeout || DEFAULT_TIMEOUT;
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    // 不读取响应体的调用方不会清除定时器，不应让它阻止进程退出
+    timeoutId.unref();
+    const canRetry = attempt <= retry.retries;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: init.method,
+        headers: init.headers,
+        body: init.body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      const message = timedOut
+        ? `Timeout after ${timeout}ms`
+        : error instanceof Error ? error.message : String(error);
+
+      // 网络错误/超时：非幂等请求可能已被处理，不重试
+      if (canRetry && idempotent) {
+        await sleep(backoffDelay(attempt, retry));
+        continue;
+      }
+      throw new FetchError(message, { attempts: attempt, timedOut });
+    }
+
+    bodyTimers.set(response, { timeoutId, timeout });
+
+    if (response.ok) {
+      return response;
+    }
+
+    if (canRetry && retryOn.includes(response.status)) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter === null || retryAfter <= retry.maxDelay) {
+        clearTimeout(timeoutId);
+        await response.body?.cancel().catch(() => undefined);
+        await sleep(retryAfter ?? backoffDelay(attempt, retry));
+        continue;
+      }
+    }
+
+    throw new FetchError(`HTTP ${response.status}`, {
+      status: response.status,
+      body: await readSnippet(response),
+      attempts: attempt,
     });
+  }
+}
 
-    clearTimeout(timeoutId);
+/**
+ * 以流的方式读取响应体，超过 maxBytes 时中止读取并返回 null
+ */
+export async function readBytes(response: Response, maxBytes: number): Promise<Buffer | null> {
+  return readBody(response, async r => {
+    if (!r.body) return Buffer.alloc(0);
 
-    if (!response.ok) {
-      throw new FetchError(`HTTP ${response.status}`, response.status);
+    const reader = r.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        return null;
+      }
+      chunks.push(value);
     }
+    return Buffer.concat(chunks);
+  });
+}
 
-    const data = await response.json() as T;
-    return { data };
+async function parseJson<T>(response: Response): Promise<T> {
+  try {
+    return await readBody(response, r => r.json()) as T;
   } catch (error) {
-    clearTimeout(timeoutId);
     if (error instanceof FetchError) throw error;
-    throw new FetchError(error instanceof Error ? error.message : String(error));
+    throw new FetchError(
+      `Invalid JSON response: ${error instanceof Error ? error.message : String(error)}`,
+      { status: response.status }
+    );
   }
 }
 
-export async function get<T>(
+export async function post<T>(
   url: string,
+  body: any,
   options: FetchOptions = {}
 ): Promise<{ data: T }> {
-  const controller = new AbortController();
-  const timeout = options.timeout || 30000;
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const response = await request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  }, options);
 
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: options.headers,
-      signal: controller.signal,
-    });
+  const data = await parseJson<T>(response);
+  return { data };
+}
+
+export async function put<T>(
+  url: string,
+  body: any,
+  options: FetchOptions = {}
+): Promise<{ data: T }> {
+  const response = await request(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  }, options);
 
-    clearTimeout(timeoutId);
+  const data = await parseJson<T>(response);
+  return { data };
+}
 
-    if (!response.ok) {
-      throw new FetchError(`HTTP ${response.status}`, response.status);
-    }
+export async function patch<T>(
+  url: string,
+  body: any,
+  options: FetchOptions = {}
+): Promise<{ data: T }> {
+  const response = await request(url, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  }, options);
 
-    const data = await response.json() as T;
-    return { data };
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof FetchError) throw error;
-    throw new FetchError(error instanceof Error ? error.message : String(error));
-  }
-}
\ No newline at end of file
+  const data = await parseJson<T>(response);
+  return { data };
+}
+
+export async function get<T>(
+  url: string,
+  options: FetchOptions = {}
+): Promise<{ data: T }> {
+  const response = await request(url, {
+    method: 'GET',
+    headers: options.headers,
+  }, options);
+
+  const data = await parseJson<T>(response);
+  return { data };
+}
+
+export async function getText(
+  url: string,
+  options: FetchOptions = {}
+): Promise<{ data: string }> {
+  const response = await request(url, {
+    method: 'GET',
+    headers: options.headers,
+  }, options);
+
+  return { data: await readBody(response, r => r.text()) };
+}
@@ -0,0 +1,27 @@
+/**
+ * parseJsonFromLLM 测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJsonFromLLM } from './json';
+
+test('直接解析 JSON', () => {
+  assert.deepEqual(parseJsonFromLLM('{"a": 1}'), { a: 1 });
+  assert.deepEqual(parseJsonFromLLM('  [1, 2]\n'), [1, 2]);
+});
+
+test('解析 ```json 代码块中的内容', () => {
+  assert.deepEqual(parseJsonFromLLM('结果如下：\n```json\n{"titles": ["a"]}\n```\n以上'), { titles: ['a'] });
+  assert.deepEqual(parseJsonFromLLM('```\n[3]\n```'), [3]);
+});
+
+test('截取前后多余文字之间的 JSON', () => {
+  assert.deepEqual(parseJsonFromLLM('Sure! {"ok": true} Hope this helps.'), { ok: true });
+  assert.deepEqual(parseJsonFromLLM('翻译：["一", "二"]。'), ['一', '二']);
+});
+
+test('没有 JSON 时抛出 SyntaxError', () => {
+  assert.throws(() => parseJsonFromLLM('抱歉，我无法完成'), SyntaxError);
+  assert.throws(() => parseJsonFromLLM('{"a": '), SyntaxError);
+});
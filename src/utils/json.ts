@@ -0,0 +1,27 @@
+/**
+ * JSON 工具函数
+ */
+
+/**
+ * 从 LLM 输出中解析 JSON（兼容 ```json 代码块和前后多余文字）
+ */
+export function parseJsonFromLLM<T = unknown>(text: string): T {
+  let body = text.trim();
+
+  const fenced = body.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    body = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    // 截取第一个 JSON 数组/对象
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf(']'), body.lastIndexOf('}'));
+    if (start === -1 || end <= start) {
+      throw new SyntaxError(`No JSON found in: ${text.substring(0, 100)}`);
+    }
+    return JSON.parse(body.substring(start, end + 1)) as T;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * RateLimiter 令牌桶与 mapConcurrent 测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, mapConcurrent } from './scheduler';
+import type { Clock } from './scheduler';
+
+/**
+ * 手动推进的时钟：sleep 立即把时间向后推，并记录每次等待的时长
+ */
+function createManualClock(): Clock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async ms => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
+
+test('超过桶容量的请求按全部 token 计费，后续请求等待欠额补足', async () => {
+  const clock = createManualClock();
+  // 60000 TPM：每毫秒补充 1 个令牌，桶容量为 5 秒的配额（5000）
+  const limiter = new RateLimiter('test', { maxConcurrent: 2, tokensPerMinute: 60000 }, clock);
+
+  await limiter.schedule(async () => undefined, 6000);
+  assert.deepEqual(clock.sleeps, []);
+
+  // 第一个请求欠下 1000 个令牌，需要 1001ms 才能取出下一个令牌
+  await limiter.schedule(async () => undefined, 1);
+  assert.deepEqual(clock.sleeps, [1001]);
+});
+
+test('桶容量以内的请求不需要等待', async () => {
+  const clock = createManualClock();
+  const limiter = new RateLimiter('test', { maxConcurrent: 2, tokensPerMinute: 60000 }, clock);
+
+  await limiter.schedule(async () => undefined, 2000);
+  await limiter.schedule(async () => undefined, 2000);
+  assert.deepEqual(clock.sleeps, []);
+});
+
+test('RPM 令牌用完后按补充速率等待', async () => {
+  const clock = createManualClock();
+  // 60 RPM：桶容量 5 个请求，之后每 1000ms 补充一个
+  const limiter = new RateLimiter('test', { maxConcurrent: 1, requestsPerMinute: 60 }, clock);
+
+  for (let i = 0; i < 7; i++) {
+    await limiter.schedule(async () => undefined);
+  }
+  assert.deepEqual(clock.sleeps, [1000, 1000]);
+  assert.equal(limiter.getStats().requests, 7);
+  assert.equal(limiter.getStats().waitMs, 2000);
+});
+
+test('同时进行的任务数不超过 maxConcurrent', async () => {
+  const limiter = new RateLimiter('test', { maxConcurrent: 2 }, createManualClock());
+  let running = 0;
+  let peak = 0;
+
+  await Promise.all(Array.from({ length: 5 }, () => limiter.schedule(async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setImmediate(resolve));
+    running--;
+  })));
+  assert.equal(peak, 2);
+});
+
+test('mapConcurrent 的结果保持原顺序', async () => {
+  const results = await mapConcurrent([30, 10, 20], 2, async (value, index) => {
+    await new Promise(resolve => setImmediate(resolve));
+    return `${index}:${value}`;
+  });
+  assert.deepEqual(results, ['0:30', '1:10', '2:20']);
+});
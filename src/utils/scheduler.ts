@@ -0,0 +1,241 @@
+/**
+ * 并发调度与限流
+ *
+ * 每个外部服务（jina、deepseek、algolia 等）对应一个 RateLimiter：
+ * - maxConcurrent: 同时进行的请求数上限
+ * - requestsPerMinute / tokensPerMinute: 令牌桶限速
+ */
+
+export interface RateLimitOptions {
+  maxConcurrent: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface LimiterStats {
+  name: string;
+  requests: number;
+  // 请求本身耗时总和（毫秒）
+  busyMs: number;
+  // 排队等待耗时总和（毫秒）
+  waitMs: number;
+  // 第一次请求开始到最后一次请求结束（毫秒）
+  wallMs: number;
+}
+
+// 时间来源，测试中替换为手动推进的时钟
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+// 令牌桶容量为 5 秒的配额，避免开始时瞬间打满一分钟的额度
+const BURST_WINDOW_MS = 5000;
+
+class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private last: number;
+
+  constructor(perMinute: number, private clock: Clock) {
+    this.refillPerMs = perMinute / 60000;
+    this.capacity = Math.max(1, Math.ceil(this.refillPerMs * BURST_WINDOW_MS));
+    this.tokens = this.capacity;
+    this.last = clock.now();
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.last) * this.refillPerMs);
+    this.last = now;
+  }
+
+  /**
+   * 距离可取出 amount 个令牌还需等待的毫秒数
+   *
+   * 超过桶容量的请求在桶满时放行，余额变为负数，后续请求需等待欠额补足
+   */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    return this.tokens >= needed ? 0 : Math.ceil((needed - this.tokens) / this.refillPerMs);
+  }
+
+  /**
+   * 扣除全部 amount 个令牌（余额可以为负）
+   */
+  take(amount: number): void {
+    this.tokens -= amount;
+  }
+}
+
+export class RateLimiter {
+  private inFlight = 0;
+  private queue: Array<() => void> = [];
+  private rpm: TokenBucket | null;
+  private tpm: TokenBucket | null;
+  private stats: LimiterStats;
+  private firstStart = 0;
+  private lastEnd = 0;
+
+  constructor(
+    readonly name: string,
+    private options: RateLimitOptions,
+    private clock: Clock = systemClock
+  ) {
+    this.rpm = options.requestsPerMinute ? new TokenBucket(options.requestsPerMinute, clock) : null;
+    this.tpm = options.tokensPerMinute ? new TokenBucket(options.tokensPerMinute, clock) : null;
+    this.stats = { name, requests: 0, busyMs: 0, waitMs: 0, wallMs: 0 };
+  }
+
+  /**
+   * 在并发和速率限制内执行任务
+   *
+   * @param tokens 预估消耗的 token 数（用于 TPM 限制）
+   */
+  async schedule<T>(task: () => Promise<T>, tokens: number = 0): Promise<T> {
+    const queuedAt = this.clock.now();
+    await this.acquire();
+
+    try {
+      await this.waitForBuckets(tokens);
+
+      const start = this.clock.now();
+      this.stats.waitMs += start - queuedAt;
+      if (!this.firstStart) this.firstStart = start;
+
+      try {
+        return await task();
+      } finally {
+        const end = this.clock.now();
+        this.stats.requests++;
+        this.stats.busyMs += end - start;
+        this.lastEnd = Math.max(this.lastEnd, end);
+        this.stats.wallMs = this.lastEnd - this.firstStart;
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): LimiterStats {
+    return { ...this.stats };
+  }
+
+  private async waitForBuckets(tokens: number): Promise<void> {
+    for (;;) {
+      const wait = Math.max(this.rpm?.waitTime(1) ?? 0, tokens > 0 ? this.tpm?.waitTime(tokens) ?? 0 : 0);
+      if (wait === 0) {
+        this.rpm?.take(1);
+        if (tokens > 0) this.tpm?.take(tokens);
+        return;
+      }
+      await this.clock.sleep(wait);
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.inFlight < this.options.maxConcurrent) {
+      this.inFlight++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // 名额直接交给下一个排队的任务
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+}
+
+const DEFAULT_LIMITS: Record<string, RateLimitOptions> = {
+  jina: { maxConcurrent: 5, requestsPerMinute: 100 },
+  algolia: { maxConcurrent: 5, requestsPerMinute: 150 },
+  firebase: { maxConcurrent: 10 },
+  github: { maxConcurrent: 2 },
+  // Telegram 同一频道每分钟约 20 条消息
+  telegram: { maxConcurrent: 1, requestsPerMinute: 20 },
+  web: { maxConcurrent: 5 },
+  deepseek: { maxConcurrent: 5, requestsPerMinute: 60 },
+};
+
+const FALLBACK_LIMIT: RateLimitOptions = { maxConcurrent: 3 };
+
+const limiters = new Map<string, RateLimiter>();
+const overrides = new Map<string, Partial<RateLimitOptions>>();
+
+/**
+ * 覆盖某个服务的限流配置（需在首次使用前调用）
+ */
+export function configureLimiter(service: string, options: Partial<RateLimitOptions>): void {
+  overrides.set(service, { ...overrides.get(service), ...options });
+  limiters.delete(service);
+}
+
+/**
+ * 获取服务对应的共享 RateLimiter
+ */
+export function getLimiter(service: string): RateLimiter {
+  let limiter = limiters.get(service);
+  if (!limiter) {
+    limiter = new RateLimiter(service, {
+      ...(DEFAULT_LIMITS[service] ?? FALLBACK_LIMIT),
+      ...overrides.get(service),
+    });
+    limiters.set(service, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * 已使用过的服务的统计
+ */
+export function getLimiterStats(): LimiterStats[] {
+  return [...limiters.values()]
+    .map(limiter => limiter.getStats())
+    .filter(stats => stats.requests > 0);
+}
+
+/**
+ * 格式化服务统计：请求数、首个请求开始到最后一个结束的耗时、平均单次耗时、累计排队时间
+ */
+export function formatLimiterStats(stats: LimiterStats[]): string[] {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  return stats.map(({ name, requests, busyMs, waitMs, wallMs }) =>
+    `${name}: ${requests} 次 | 总计 ${seconds(wallMs)} | 平均 ${seconds(busyMs / requests)} | 排队 ${seconds(waitMs)}`
+  );
+}
+
+/**
+ * 以有限并发处理列表，结果保持原顺序
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
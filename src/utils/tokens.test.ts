@@ -0,0 +1,45 @@
+/**
+ * Token 估算与切分测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTokens, splitByTokens, truncateToTokens } from './tokens';
+
+test('CJK 字符按 1 token/字，其他文本按 4 字符/token 估算', () => {
+  assert.equal(estimateTokens(''), 0);
+  assert.equal(estimateTokens('abcdefgh'), 2);
+  assert.equal(estimateTokens('中文abcd'), 3);
+});
+
+test('truncateToTokens 只截断超出预算的文本', () => {
+  assert.equal(truncateToTokens('abcdefgh', 10), 'abcdefgh');
+  assert.equal(truncateToTokens('abcdefgh', 1), 'abcd');
+});
+
+test('splitByTokens 在段落边界处合并到预算以内', () => {
+  const paragraphs = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+  assert.deepEqual(splitByTokens(paragraphs.join('\n\n'), 20), [
+    `${paragraphs[0]}\n\n${paragraphs[1]}`,
+    paragraphs[2],
+  ]);
+});
+
+test('splitByTokens 把超长段落按句子切分', () => {
+  const sentence = `${'word '.repeat(9)}end. `;
+  const chunks = splitByTokens(sentence.repeat(4).trim(), 20);
+  assert.equal(chunks.length, 4);
+  assert.ok(chunks.every(chunk => estimateTokens(chunk) <= 20));
+  assert.equal(chunks.join(''), sentence.repeat(4).trim());
+});
+
+test('splitByTokens 把没有句子边界的超长文本按字符硬切', () => {
+  const text = '中'.repeat(25);
+  const chunks = splitByTokens(text, 10);
+  assert.deepEqual(chunks.map(chunk => chunk.length), [10, 10, 5]);
+  assert.equal(chunks.join(''), text);
+});
+
+test('splitByTokens 的预算小于 1 token 时仍能结束', () => {
+  assert.deepEqual(splitByTokens('abc', 0), ['a', 'b', 'c']);
+});
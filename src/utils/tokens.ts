@@ -0,0 +1,87 @@
+/**
+ * Token 估算
+ *
+ * 不依赖分词器的粗略估算：CJK 字符约 1 token/字，其他文本约 4 字符/token
+ */
+
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+/**
+ * 按 token 预算截断文本
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) {
+    return text;
+  }
+  return text.substring(0, Math.floor(text.length * maxTokens / tokens));
+}
+
+/**
+ * 按 token 预算切分文本，优先在段落和句子边界处切分
+ */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const pieces = text
+    .split(/\n{2,}/)
+    .flatMap(paragraph => splitOversized(paragraph.trim(), maxTokens))
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const piece of pieces) {
+    const tokens = estimateTokens(piece);
+    if (currentTokens + tokens > maxTokens && current.length > 0) {
+      chunks.push(current.join('\n\n'));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(piece);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    chunks.push(current.join('\n\n'));
+  }
+
+  return chunks;
+}
+
+/**
+ * 超长段落先按句子切分，单句仍超长时按字符硬切
+ */
+function splitOversized(paragraph: string, maxTokens: number): string[] {
+  if (estimateTokens(paragraph) <= maxTokens) {
+    return [paragraph];
+  }
+
+  // 保留句末空白，拼接后与原文一致
+  const sentences = paragraph.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && estimateTokens(current + sentence) > maxTokens) {
+      parts.push(current);
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts.flatMap(part => {
+    const pieces: string[] = [];
+    let rest = part;
+    while (estimateTokens(rest) > maxTokens) {
+      // 预算小于 1 token 时至少切出一个字符，避免死循环
+      const head = truncateToTokens(rest, maxTokens) || rest.substring(0, 1);
+      pieces.push(head);
+      rest = rest.substring(head.length);
+    }
+    return rest ? [...pieces, rest] : pieces;
+  });
+}
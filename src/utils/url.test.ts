@@ -0,0 +1,33 @@
+/**
+ * 链接归一化测试
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeUrl } from './url';
+
+test('忽略协议、www. 前缀、锚点和结尾的 /', () => {
+  assert.equal(normalizeUrl('https://www.Example.com/post/#top'), 'example.com/post');
+  assert.equal(normalizeUrl('http://example.com/post'), 'example.com/post');
+  assert.equal(normalizeUrl('https://m.example.com/'), 'example.com');
+});
+
+test('去掉 index.html，保留端口', () => {
+  assert.equal(normalizeUrl('https://example.com:8080/docs/index.html'), 'example.com:8080/docs');
+});
+
+test('去掉跟踪参数，其余查询参数排序', () => {
+  assert.equal(normalizeUrl('https://example.com/a?utm_source=hn&b=2&a=1&ref=x'), 'example.com/a?a=1&b=2');
+  assert.equal(normalizeUrl('https://example.com/a?fbclid=1'), 'example.com/a');
+});
+
+test('路径大小写和非跟踪参数视为不同页面', () => {
+  assert.notEqual(normalizeUrl('https://example.com/Post'), normalizeUrl('https://example.com/post'));
+  assert.notEqual(normalizeUrl('https://example.com/item?id=1'), normalizeUrl('https://example.com/item?id=2'));
+});
+
+test('空链接、无效链接和非 http(s) 链接返回 null', () => {
+  assert.equal(normalizeUrl(undefined), null);
+  assert.equal(normalizeUrl('not a url'), null);
+  assert.equal(normalizeUrl('ftp://example.com/file'), null);
+});
@@ -0,0 +1,36 @@
+/**
+ * URL 工具
+ */
+
+// 不影响页面内容的跟踪参数
+const TRACKING_PARAMS = /^(utm_\w+|ref|ref_src|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * 归一化链接，用于判断不同 HN 帖子是否指向同一页面
+ *
+ * 忽略协议、www. / m. 前缀、跟踪参数、锚点、结尾的 / 和 index.html，查询参数排序；
+ * 非 http(s) 链接返回 null
+ */
+export function normalizeUrl(url: string | undefined): string | null {
+  if (!url) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const port = parsed.port ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/(index\.html?)?$/i, '');
+  const params = [...parsed.searchParams]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+  return `${host}${port}${path}${query}`;
+}